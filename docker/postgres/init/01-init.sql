@@ -4,16 +4,34 @@
 -- Create schema
 CREATE SCHEMA IF NOT EXISTS mcp_prompts;
 
--- Create prompts table
+-- Create prompts table: the identity the versions of a prompt share
 CREATE TABLE IF NOT EXISTS mcp_prompts.prompts (
-    id SERIAL PRIMARY KEY,
-    name VARCHAR(255) NOT NULL UNIQUE,
+    id VARCHAR(255) PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create prompt_versions table: one row per version, never overwritten by saving a prompt
+CREATE TABLE IF NOT EXISTS mcp_prompts.prompt_versions (
+    prompt_id VARCHAR(255) NOT NULL REFERENCES mcp_prompts.prompts(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    name VARCHAR(255) NOT NULL,
     description TEXT,
     content TEXT NOT NULL,
+    messages JSONB,
     is_template BOOLEAN DEFAULT FALSE,
+    engine VARCHAR(50),
+    delimiter_style VARCHAR(20),
+    escaping VARCHAR(20),
+    tokenizer VARCHAR(50),
+    token_budget JSONB,
+    locale VARCHAR(35),
+    translations JSONB,
+    output_schema JSONB,
+    category VARCHAR(100),
     metadata JSONB DEFAULT '{}'::jsonb,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (prompt_id, version)
 );
 
 -- Create tags table
@@ -22,21 +40,28 @@ CREATE TABLE IF NOT EXISTS mcp_prompts.tags (
     name VARCHAR(100) NOT NULL UNIQUE
 );
 
--- Create prompt_tags join table
+-- Create prompt_tags join table, tagging each version in order
 CREATE TABLE IF NOT EXISTS mcp_prompts.prompt_tags (
-    prompt_id INTEGER REFERENCES mcp_prompts.prompts(id) ON DELETE CASCADE,
+    prompt_id VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL,
     tag_id INTEGER REFERENCES mcp_prompts.tags(id) ON DELETE CASCADE,
-    PRIMARY KEY (prompt_id, tag_id)
+    position INTEGER NOT NULL,
+    PRIMARY KEY (prompt_id, version, tag_id),
+    FOREIGN KEY (prompt_id, version)
+        REFERENCES mcp_prompts.prompt_versions(prompt_id, version) ON DELETE CASCADE
 );
 
--- Create template_variables table
+-- Create template_variables table, with the declaration of each variable of a version:
+-- its name as a JSON string, or a variable object
 CREATE TABLE IF NOT EXISTS mcp_prompts.template_variables (
-    id SERIAL PRIMARY KEY,
-    prompt_id INTEGER REFERENCES mcp_prompts.prompts(id) ON DELETE CASCADE,
+    prompt_id VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL,
     name VARCHAR(100) NOT NULL,
-    description TEXT,
-    default_value TEXT,
-    UNIQUE(prompt_id, name)
+    position INTEGER NOT NULL,
+    definition JSONB NOT NULL,
+    PRIMARY KEY (prompt_id, version, name),
+    FOREIGN KEY (prompt_id, version)
+        REFERENCES mcp_prompts.prompt_versions(prompt_id, version) ON DELETE CASCADE
 );
 
 -- Create workflow_executions table for workflow state persistence
@@ -51,55 +76,58 @@ CREATE TABLE IF NOT EXISTS mcp_prompts.workflow_executions (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Create template_helpers table for declarative template helpers
+CREATE TABLE IF NOT EXISTS mcp_prompts.template_helpers (
+    name VARCHAR(100) PRIMARY KEY,
+    definition JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create prompt_assets table for binary data of prompts, such as images, by SHA-256
+CREATE TABLE IF NOT EXISTS mcp_prompts.prompt_assets (
+    id CHAR(64) PRIMARY KEY,
+    data BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create views
 CREATE OR REPLACE VIEW mcp_prompts.prompts_with_tags AS
     SELECT 
-        p.id,
-        p.name,
-        p.description,
-        p.content,
-        p.is_template,
-        p.metadata,
-        p.created_at,
-        p.updated_at,
+        v.prompt_id AS id,
+        v.version,
+        v.name,
+        v.description,
+        v.content,
+        v.is_template,
+        v.metadata,
+        v.created_at,
+        v.updated_at,
         COALESCE(
-            json_agg(t.name) FILTER (WHERE t.name IS NOT NULL),
+            json_agg(t.name ORDER BY pt.position) FILTER (WHERE t.name IS NOT NULL),
             '[]'::json
         ) as tags
     FROM 
-        mcp_prompts.prompts p
+        mcp_prompts.prompt_versions v
     LEFT JOIN 
-        mcp_prompts.prompt_tags pt ON p.id = pt.prompt_id
+        mcp_prompts.prompt_tags pt ON v.prompt_id = pt.prompt_id AND v.version = pt.version
     LEFT JOIN 
         mcp_prompts.tags t ON pt.tag_id = t.id
     GROUP BY 
-        p.id;
-
--- Create functions for updating timestamps
-CREATE OR REPLACE FUNCTION mcp_prompts.update_timestamp()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = CURRENT_TIMESTAMP;
-    RETURN NEW;
-END;
-$$ LANGUAGE plpgsql;
-
--- Create triggers
-CREATE TRIGGER update_prompts_timestamp
-BEFORE UPDATE ON mcp_prompts.prompts
-FOR EACH ROW
-EXECUTE FUNCTION mcp_prompts.update_timestamp();
+        v.prompt_id, v.version;
 
 -- Create indexes
-CREATE INDEX IF NOT EXISTS idx_prompts_name ON mcp_prompts.prompts(name);
-CREATE INDEX IF NOT EXISTS idx_prompts_is_template ON mcp_prompts.prompts(is_template);
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_name ON mcp_prompts.prompt_versions(name);
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_is_template ON mcp_prompts.prompt_versions(is_template);
+CREATE INDEX IF NOT EXISTS idx_prompt_tags_tag_id ON mcp_prompts.prompt_tags(tag_id);
 CREATE INDEX IF NOT EXISTS idx_tags_name ON mcp_prompts.tags(name);
 CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow_id ON mcp_prompts.workflow_executions(workflow_id);
 
--- Create a search function
+-- Create a search function over the latest version of each prompt
 CREATE OR REPLACE FUNCTION mcp_prompts.search_prompts(search_text TEXT)
 RETURNS TABLE (
-    id INTEGER,
+    id VARCHAR(255),
+    version INTEGER,
     name VARCHAR(255),
     description TEXT,
     content TEXT,
@@ -110,26 +138,22 @@ BEGIN
     RETURN QUERY
     SELECT 
         p.id,
+        p.version,
         p.name,
         p.description,
         p.content,
         p.is_template,
-        COALESCE(
-            json_agg(t.name) FILTER (WHERE t.name IS NOT NULL),
-            '[]'::json
-        ) as tags
+        p.tags
     FROM 
-        mcp_prompts.prompts p
-    LEFT JOIN 
-        mcp_prompts.prompt_tags pt ON p.id = pt.prompt_id
-    LEFT JOIN 
-        mcp_prompts.tags t ON pt.tag_id = t.id
+        mcp_prompts.prompts_with_tags p
     WHERE 
-        p.name ILIKE '%' || search_text || '%' OR
-        p.description ILIKE '%' || search_text || '%' OR
-        p.content ILIKE '%' || search_text || '%'
-    GROUP BY 
-        p.id
+        p.version = (
+            SELECT MAX(v.version) FROM mcp_prompts.prompt_versions v WHERE v.prompt_id = p.id
+        ) AND (
+            p.name ILIKE '%' || search_text || '%' OR
+            p.description ILIKE '%' || search_text || '%' OR
+            p.content ILIKE '%' || search_text || '%'
+        )
     ORDER BY 
         p.name;
 END;
@@ -0,0 +1,45 @@
+-- Migrate a database created by an earlier 01-init.sql to versioned prompts
+-- Run it once with psql from any directory:
+--   psql "$POSTGRES_CONNECTION_STRING" -v ON_ERROR_STOP=1 -f docker/postgres/migrations/01-prompt-versions.sql
+-- Each prompt keeps its numeric id as a string id and becomes version 1, with its tags and
+-- variables. Everything runs in one transaction, so a failure leaves the database as it was.
+
+BEGIN;
+
+-- Move the tables of the old schema out of the way, with their indexes and triggers
+CREATE SCHEMA mcp_prompts_old;
+DROP VIEW IF EXISTS mcp_prompts.prompts_with_tags;
+DROP FUNCTION IF EXISTS mcp_prompts.search_prompts(TEXT);
+ALTER TABLE mcp_prompts.prompts SET SCHEMA mcp_prompts_old;
+ALTER TABLE mcp_prompts.prompt_tags SET SCHEMA mcp_prompts_old;
+ALTER TABLE mcp_prompts.template_variables SET SCHEMA mcp_prompts_old;
+
+-- Create the current schema
+\ir ../init/01-init.sql
+
+-- Copy each prompt as version 1 of the prompt with its id as a string
+INSERT INTO mcp_prompts.prompts (id, created_at)
+    SELECT id::text, created_at FROM mcp_prompts_old.prompts;
+
+INSERT INTO mcp_prompts.prompt_versions
+    (prompt_id, version, name, description, content, is_template, metadata, created_at, updated_at)
+    SELECT id::text, 1, name, description, content, is_template, metadata, created_at, updated_at
+    FROM mcp_prompts_old.prompts;
+
+INSERT INTO mcp_prompts.prompt_tags (prompt_id, version, tag_id, position)
+    SELECT pt.prompt_id::text, 1, pt.tag_id,
+        ROW_NUMBER() OVER (PARTITION BY pt.prompt_id ORDER BY t.name)
+    FROM mcp_prompts_old.prompt_tags pt
+    JOIN mcp_prompts.tags t ON t.id = pt.tag_id;
+
+INSERT INTO mcp_prompts.template_variables (prompt_id, version, name, position, definition)
+    SELECT prompt_id::text, 1, name,
+        ROW_NUMBER() OVER (PARTITION BY prompt_id ORDER BY id) - 1, to_jsonb(name)
+    FROM mcp_prompts_old.template_variables
+    WHERE prompt_id IS NOT NULL;
+
+-- Drop the old tables, and the timestamp trigger function only they used
+DROP SCHEMA mcp_prompts_old CASCADE;
+DROP FUNCTION IF EXISTS mcp_prompts.update_timestamp();
+
+COMMIT;
@@ -8,12 +8,15 @@ import fs from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
 
+import type BetterSqlite3 from 'better-sqlite3';
 import lockfile from 'proper-lockfile';
 import type { pino } from 'pino';
 import pg from 'pg';
 import { z } from 'zod';
 
 import {
+  type HelperDefinition,
+  type IHelperRepository,
   type ListPromptsOptions,
   type McpConfig,
   type Prompt,
@@ -23,10 +26,10 @@ import {
   type IWorkflowRepository,
   type WorkflowExecutionState,
 } from './interfaces.js';
-import { promptSchemas, workflowSchema } from './schemas.js';
+import { helperDefinitionSchema, promptSchemas, workflowSchema } from './schemas.js';
 import { LockError } from './errors.js';
 
-export async function atomicWriteFile(filePath: string, data: string) {
+export async function atomicWriteFile(filePath: string, data: string | Buffer) {
   const dir = path.dirname(filePath);
   const tempFile = path.join(dir, `${path.basename(filePath)}.${randomUUID()}.tmp`);
   await fsp.writeFile(tempFile, data);
@@ -36,7 +39,10 @@ export async function atomicWriteFile(filePath: string, data: string) {
   await fsp.rename(tempFile, filePath);
 }
 
-export function adapterFactory(config: McpConfig, logger: pino.Logger): IPromptRepository {
+export function adapterFactory(
+  config: McpConfig,
+  logger: pino.Logger,
+): IPromptRepository & IHelperRepository {
   const { storage } = config;
 
   switch (storage.type) {
@@ -57,6 +63,9 @@ export function adapterFactory(config: McpConfig, logger: pino.Logger): IPromptR
         ssl: storage.ssl,
         user: storage.user,
       });
+    case 'sqlite':
+      logger.info(`Using sqlite storage adapter with database: ${storage.filename}`);
+      return new SqliteAdapter({ filename: storage.filename as string });
     default:
       throw new Error(`Unknown storage adapter type: ${storage.type}`);
   }
@@ -74,14 +83,21 @@ export class ValidationError extends Error {
   }
 }
 
+/** Asset ids are the SHA-256 of their data in hex, which also keeps them safe as file names */
+const ASSET_ID = /^[0-9a-f]{64}$/;
+
 /**
  * FileAdapter Implementation
  * Stores prompts as individual JSON files in a directory
  */
-export class FileAdapter implements IPromptRepository, ISequenceRepository, IWorkflowRepository {
+export class FileAdapter
+  implements IPromptRepository, ISequenceRepository, IWorkflowRepository, IHelperRepository
+{
   private promptsDir: string;
   private sequencesDir: string;
   private workflowStatesDir: string;
+  private helpersDir: string;
+  private assetsDir: string;
   private connected = false;
   private promptIndexPath: string;
 
@@ -89,6 +105,8 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
     this.promptsDir = options.promptsDir;
     this.sequencesDir = path.join(options.promptsDir, 'sequences');
     this.workflowStatesDir = path.join(options.promptsDir, 'workflow-states');
+    this.helpersDir = path.join(options.promptsDir, 'helpers');
+    this.assetsDir = path.join(options.promptsDir, 'assets');
     this.promptIndexPath = path.join(this.promptsDir, 'index.json');
   }
 
@@ -160,6 +178,8 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
       await fsp.mkdir(this.promptsDir, { recursive: true });
       await fsp.mkdir(this.sequencesDir, { recursive: true });
       await fsp.mkdir(this.workflowStatesDir, { recursive: true });
+      await fsp.mkdir(this.helpersDir, { recursive: true });
+      await fsp.mkdir(this.assetsDir, { recursive: true });
 
       // Validate existing prompts on startup
       const files = await fsp.readdir(this.promptsDir);
@@ -227,6 +247,16 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
         id,
         version: newVersion,
         ...parsedData,
+        content: parsedData.content ?? '',
+        messages: parsedData.messages ?? undefined,
+        engine: parsedData.engine ?? undefined,
+        delimiterStyle: parsedData.delimiterStyle ?? undefined,
+        escaping: parsedData.escaping ?? undefined,
+        tokenizer: parsedData.tokenizer ?? undefined,
+        tokenBudget: parsedData.tokenBudget ?? undefined,
+        locale: parsedData.locale ?? undefined,
+        translations: (parsedData.translations as Prompt['translations']) ?? undefined,
+        outputSchema: parsedData.outputSchema ?? undefined,
         variables: (parsedData.variables as any) ?? undefined,
         tags: parsedData.tags ?? undefined,
         metadata: parsedData.metadata ?? undefined,
@@ -481,6 +511,24 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
     }
   }
 
+  public async listSequences(): Promise<PromptSequence[]> {
+    let files: string[];
+    try {
+      files = await fsp.readdir(this.sequencesDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const sequences = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.getSequence(path.basename(file, '.json'))),
+    );
+    return sequences.filter((s): s is PromptSequence => s !== null);
+  }
+
   public async saveSequence(sequence: PromptSequence): Promise<PromptSequence> {
     const sequencePath = path.join(this.sequencesDir, `${sequence.id}.json`);
     await this.withLock(sequencePath, () =>
@@ -537,6 +585,69 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
     return states;
   }
 
+  public async listHelpers(): Promise<HelperDefinition[]> {
+    let files: string[];
+    try {
+      files = await fsp.readdir(this.helpersDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const helpers: HelperDefinition[] = [];
+    for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+      const content = await fsp.readFile(path.join(this.helpersDir, file), 'utf-8');
+      helpers.push(helperDefinitionSchema.parse(JSON.parse(content)) as HelperDefinition);
+    }
+    return helpers;
+  }
+
+  public async saveHelper(helper: HelperDefinition): Promise<HelperDefinition> {
+    const helperPath = path.join(this.helpersDir, `${helper.name}.json`);
+    await this.withLock(helperPath, () =>
+      atomicWriteFile(helperPath, JSON.stringify(helper, null, 2)),
+    );
+    return helper;
+  }
+
+  public async deleteHelper(name: string): Promise<boolean> {
+    const helperPath = path.join(this.helpersDir, `${name}.json`);
+    try {
+      await this.withLock(helperPath, () => fsp.unlink(helperPath));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Assets are files named by their SHA-256, so saving one again rewrites the same data.
+   */
+  public async saveAsset(id: string, data: Buffer): Promise<void> {
+    if (!ASSET_ID.test(id)) {
+      throw new Error(`Invalid asset id: ${id}`);
+    }
+    await atomicWriteFile(path.join(this.assetsDir, id), data);
+  }
+
+  public async getAsset(id: string): Promise<Buffer | null> {
+    if (!ASSET_ID.test(id)) {
+      return null;
+    }
+    try {
+      return await fsp.readFile(path.join(this.assetsDir, id));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   public async healthCheck(): Promise<boolean> {
     return this.connected;
   }
@@ -546,10 +657,14 @@ export class FileAdapter implements IPromptRepository, ISequenceRepository, IWor
  * MemoryAdapter Implementation
  * In-memory storage for prompts, useful for testing and development
  */
-export class MemoryAdapter implements IPromptRepository, ISequenceRepository, IWorkflowRepository {
+export class MemoryAdapter
+  implements IPromptRepository, ISequenceRepository, IWorkflowRepository, IHelperRepository
+{
   private prompts = new Map<string, Map<number, Prompt>>();
   private sequences = new Map<string, PromptSequence>();
   private workflowStates = new Map<string, WorkflowExecutionState>();
+  private helpers = new Map<string, HelperDefinition>();
+  private assets = new Map<string, Buffer>();
   private connected = false;
 
   public constructor() {
@@ -576,6 +691,8 @@ export class MemoryAdapter implements IPromptRepository, ISequenceRepository, IW
     this.prompts.clear();
     this.sequences.clear();
     this.workflowStates.clear();
+    this.helpers.clear();
+    this.assets.clear();
   }
 
   public async listPrompts(options?: ListPromptsOptions, allVersions = false): Promise<Prompt[]> {
@@ -719,6 +836,10 @@ export class MemoryAdapter implements IPromptRepository, ISequenceRepository, IW
     return this.sequences.get(id) ?? null;
   }
 
+  public async listSequences(): Promise<PromptSequence[]> {
+    return Array.from(this.sequences.values());
+  }
+
   public async saveSequence(sequence: PromptSequence): Promise<PromptSequence> {
     this.sequences.set(sequence.id, sequence);
     return sequence;
@@ -745,13 +866,84 @@ export class MemoryAdapter implements IPromptRepository, ISequenceRepository, IW
     }
     return states;
   }
+
+  public async listHelpers(): Promise<HelperDefinition[]> {
+    return Array.from(this.helpers.values());
+  }
+
+  public async saveHelper(helper: HelperDefinition): Promise<HelperDefinition> {
+    this.helpers.set(helper.name, helper);
+    return helper;
+  }
+
+  public async deleteHelper(name: string): Promise<boolean> {
+    return this.helpers.delete(name);
+  }
+
+  public async saveAsset(id: string, data: Buffer): Promise<void> {
+    this.assets.set(id, Buffer.from(data));
+  }
+
+  public async getAsset(id: string): Promise<Buffer | null> {
+    const data = this.assets.get(id);
+    return data ? Buffer.from(data) : null;
+  }
 }
 
+/** The prompt_versions columns a prompt is written to, the key columns first */
+const PROMPT_VERSION_COLUMNS = [
+  'prompt_id',
+  'version',
+  'name',
+  'description',
+  'content',
+  'messages',
+  'is_template',
+  'engine',
+  'delimiter_style',
+  'escaping',
+  'tokenizer',
+  'token_budget',
+  'locale',
+  'translations',
+  'output_schema',
+  'category',
+  'metadata',
+  'created_at',
+  'updated_at',
+];
+
+/** Selects prompt versions with their tags and variable declarations in order */
+const PROMPT_VERSION_SELECT = `
+  SELECT v.*,
+    COALESCE(
+      (SELECT json_agg(t.name ORDER BY pt.position)
+       FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id
+       WHERE pt.prompt_id = v.prompt_id AND pt.version = v.version),
+      '[]'::json
+    ) AS tags,
+    (SELECT json_agg(tv.definition ORDER BY tv.position)
+     FROM template_variables tv
+     WHERE tv.prompt_id = v.prompt_id AND tv.version = v.version) AS variables
+  FROM prompt_versions v`;
+
+/** The prompt fields listPrompts can sort by, and their prompt_versions columns */
+const POSTGRES_SORT_COLUMNS: Record<string, string> = {
+  category: 'category',
+  createdAt: 'created_at',
+  id: 'prompt_id',
+  name: 'name',
+  updatedAt: 'updated_at',
+  version: 'version',
+};
+
 /**
  * PostgresAdapter Implementation
  * Stores prompts in a PostgreSQL database
  */
-export class PostgresAdapter implements IPromptRepository, ISequenceRepository, IWorkflowRepository {
+export class PostgresAdapter
+  implements IPromptRepository, ISequenceRepository, IWorkflowRepository, IHelperRepository
+{
   private pool: pg.Pool;
   private connected = false;
   private config: pg.PoolConfig;
@@ -762,6 +954,8 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     this.config = {
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 10000, // 10-second timeout
+      // The tables of docker/postgres/init live in the mcp_prompts schema
+      options: '-c search_path=mcp_prompts,public',
       ...config,
     };
     this.pool = new pg.Pool(this.config);
@@ -793,107 +987,172 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     console.log('Postgres storage disconnected');
   }
 
-  private async getOrCreateTagIds(tagNames: string[]): Promise<number[]> {
-    if (tagNames.length === 0) {
-      return [];
-    }
-
-    const tags = await this.pool.query('SELECT id, name FROM tags WHERE name = ANY($1)', [
-      tagNames,
+  /**
+   * Tag a version, keeping the order of the tags.
+   */
+  private async setVersionTags(
+    client: pg.PoolClient,
+    prompt: Pick<Prompt, 'id' | 'version' | 'tags'>,
+  ): Promise<void> {
+    await client.query('DELETE FROM prompt_tags WHERE prompt_id = $1 AND version = $2', [
+      prompt.id,
+      prompt.version,
     ]);
-    const existingTags = new Map(tags.rows.map(t => [t.name, t.id]));
-    const newTags = tagNames.filter(name => !existingTags.has(name));
-
-    if (newTags.length > 0) {
-      const newTagIds = await this.pool.query(
-        `INSERT INTO tags (name) SELECT unnest($1::text[]) RETURNING id, name`,
-        [newTags],
-      );
-      newTagIds.rows.forEach(row => existingTags.set(row.name, row.id));
-    }
-
-    return tagNames.map(name => existingTags.get(name)!);
-  }
-
-  private async setPromptTags(promptId: number, tagNames: string[]): Promise<void> {
-    const tagIds = await this.getOrCreateTagIds(tagNames);
-    await this.pool.query('DELETE FROM prompt_tags WHERE prompt_id = $1', [promptId]);
-    for (const tagId of tagIds) {
-      await this.pool.query('INSERT INTO prompt_tags (prompt_id, tag_id) VALUES ($1, $2)', [
-        promptId,
-        tagId,
-      ]);
+    const tags = Array.from(new Set(prompt.tags ?? []));
+    if (tags.length === 0) {
+      return;
     }
+    await client.query(
+      'INSERT INTO tags (name) SELECT unnest($1::text[]) ON CONFLICT (name) DO NOTHING',
+      [tags],
+    );
+    await client.query(
+      `INSERT INTO prompt_tags (prompt_id, version, tag_id, position)
+       SELECT $1::varchar, $2::integer, t.id, array_position($3::text[], t.name::text)
+       FROM tags t
+       WHERE t.name = ANY($3)`,
+      [prompt.id, prompt.version, tags],
+    );
   }
 
-  private async setTemplateVariables(
-    promptId: number,
-    variables: string[] | undefined,
+  /**
+   * Store the variable declarations of a version as they were given, names or objects.
+   */
+  private async setVersionVariables(
+    client: pg.PoolClient,
+    prompt: Pick<Prompt, 'id' | 'version' | 'variables'>,
   ): Promise<void> {
-    await this.pool.query('DELETE FROM template_variables WHERE prompt_id = $1', [promptId]);
-    if (variables) {
-      for (const variable of variables) {
-        await this.pool.query(
-          'INSERT INTO template_variables (prompt_id, name) VALUES ($1, $2)',
-          [promptId, variable],
-        );
-      }
+    await client.query('DELETE FROM template_variables WHERE prompt_id = $1 AND version = $2', [
+      prompt.id,
+      prompt.version,
+    ]);
+    for (const [position, variable] of (prompt.variables ?? []).entries()) {
+      await client.query(
+        'INSERT INTO template_variables (prompt_id, version, name, position, definition) VALUES ($1, $2, $3, $4, $5)',
+        [
+          prompt.id,
+          prompt.version,
+          typeof variable === 'string' ? variable : variable.name,
+          position,
+          JSON.stringify(variable),
+        ],
+      );
     }
   }
 
-  private async getTagsForPrompt(promptId: number): Promise<string[]> {
-    const res = await this.pool.query(
-      'SELECT name FROM tags t JOIN prompt_tags pt ON t.id = pt.tag_id WHERE pt.prompt_id = $1',
-      [promptId],
-    );
-    return res.rows.map(r => r.name);
-  }
-
-  private async getVariablesForPrompt(promptId: number): Promise<string[]> {
-    const res = await this.pool.query('SELECT name FROM template_variables WHERE prompt_id = $1', [
-      promptId,
-    ]);
-    return res.rows.map(r => r.name);
+  /** The values of PROMPT_VERSION_COLUMNS for a prompt */
+  private promptVersionValues(prompt: Prompt): unknown[] {
+    const json = (value: unknown) =>
+      value === undefined || value === null ? null : JSON.stringify(value);
+    return [
+      prompt.id,
+      prompt.version,
+      prompt.name,
+      prompt.description ?? null,
+      prompt.content,
+      json(prompt.messages),
+      prompt.isTemplate,
+      prompt.engine ?? null,
+      prompt.delimiterStyle ?? null,
+      prompt.escaping ?? null,
+      prompt.tokenizer ?? null,
+      json(prompt.tokenBudget),
+      prompt.locale ?? null,
+      json(prompt.translations),
+      json(prompt.outputSchema),
+      prompt.category ?? null,
+      json(prompt.metadata),
+      prompt.createdAt,
+      prompt.updatedAt,
+    ];
+  }
+
+  private rowToPrompt(row: any): Prompt {
+    return sanitizePromptMetadata({
+      category: row.category ?? undefined,
+      content: row.content,
+      createdAt: row.created_at.toISOString(),
+      delimiterStyle: row.delimiter_style ?? undefined,
+      description: row.description ?? undefined,
+      engine: row.engine ?? undefined,
+      escaping: row.escaping ?? undefined,
+      id: row.prompt_id,
+      isTemplate: row.is_template,
+      locale: row.locale ?? undefined,
+      messages: row.messages ?? undefined,
+      metadata: row.metadata,
+      name: row.name,
+      outputSchema: row.output_schema ?? undefined,
+      tags: row.tags,
+      tokenBudget: row.token_budget ?? undefined,
+      tokenizer: row.tokenizer ?? undefined,
+      translations: row.translations ?? undefined,
+      updatedAt: row.updated_at.toISOString(),
+      variables: row.variables ?? undefined,
+      version: row.version,
+    });
   }
 
-  private async getPromptIdByName(name: string): Promise<number | null> {
-    const res = await this.pool.query('SELECT id FROM prompts WHERE name = $1', [name]);
-    return res.rows[0]?.id || null;
+  private async fetchPromptVersion(
+    queryable: pg.Pool | pg.PoolClient,
+    id: string,
+    version: number,
+  ): Promise<Prompt | null> {
+    const res = await queryable.query(
+      `${PROMPT_VERSION_SELECT} WHERE v.prompt_id = $1 AND v.version = $2`,
+      [id, version],
+    );
+    return res.rows.length > 0 ? this.rowToPrompt(res.rows[0]) : null;
   }
 
-  private extractVariableNames(variables?: (string | { name: string; description?: string; default?: string; required?: boolean; type?: "string" | "number" | "boolean" | "object" | "array"; options?: string[]; })[]): string[] {
-    if (!variables) return [];
-    return variables.map(v => typeof v === 'string' ? v : v.name);
+  /**
+   * Insert a version row with its tags and variables, and read it back.
+   */
+  private async insertPromptVersion(client: pg.PoolClient, prompt: Prompt): Promise<Prompt> {
+    const placeholders = PROMPT_VERSION_COLUMNS.map((_, i) => `$${i + 1}`);
+    await client.query(
+      `INSERT INTO prompt_versions (${PROMPT_VERSION_COLUMNS.join(', ')}) VALUES (${placeholders.join(', ')})`,
+      this.promptVersionValues(prompt),
+    );
+    await this.setVersionTags(client, prompt);
+    await this.setVersionVariables(client, prompt);
+    return (await this.fetchPromptVersion(client, prompt.id, prompt.version))!;
+  }
+
+  /**
+   * Lock a prompt identity, so concurrent writes cannot take the same version.
+   * @returns The latest version of the prompt, or 0 if it has none
+   */
+  private async lockPromptVersions(client: pg.PoolClient, id: string): Promise<number> {
+    await client.query('SELECT id FROM prompts WHERE id = $1 FOR UPDATE', [id]);
+    const res = await client.query(
+      'SELECT COALESCE(MAX(version), 0) AS latest FROM prompt_versions WHERE prompt_id = $1',
+      [id],
+    );
+    return res.rows[0].latest;
   }
 
+  /**
+   * Save a prompt as a new version row. Stored versions are never overwritten: saving over one
+   * adds the version after the latest instead.
+   */
   public async savePrompt(prompt: Prompt): Promise<Prompt> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
 
-      const variableNames = this.extractVariableNames(prompt.variables);
-      const res = await client.query(
-        'INSERT INTO prompts (id, name, description, content, is_template, tags, variables, category, version, metadata) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING id',
-        [
-          prompt.id,
-          prompt.name,
-          prompt.description,
-          prompt.content,
-          prompt.isTemplate,
-          prompt.tags,
-          variableNames,
-          prompt.category,
-          prompt.version,
-          prompt.metadata,
-        ],
+      await client.query('INSERT INTO prompts (id) VALUES ($1) ON CONFLICT (id) DO NOTHING', [
+        prompt.id,
+      ]);
+      const latest = await this.lockPromptVersions(client, prompt.id);
+      const taken = await this.fetchPromptVersion(client, prompt.id, prompt.version);
+      const stored = await this.insertPromptVersion(
+        client,
+        taken ? { ...prompt, version: latest + 1 } : prompt,
       );
-      const promptId = res.rows[0].id;
-      await this.setPromptTags(promptId, prompt.tags || []);
-      await this.setTemplateVariables(promptId, variableNames);
 
       await client.query('COMMIT');
-
-      return sanitizePromptMetadata(await this.getPromptById(promptId));
+      return stored;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -902,109 +1161,43 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     }
   }
 
-  private async getPromptById(id: number): Promise<Prompt> {
-    const res = await this.pool.query('SELECT * FROM prompts WHERE id = $1', [id]);
-    const p = res.rows[0];
-    const tags = await this.getTagsForPrompt(p.id);
-    const variables = await this.getVariablesForPrompt(p.id);
-
-    return sanitizePromptMetadata({
-      category: p.category,
-      content: p.content,
-      createdAt: p.created_at,
-      description: p.description,
-      id: p.id.toString(),
-      isTemplate: p.is_template,
-      metadata: p.metadata,
-      name: p.name,
-      tags,
-      updatedAt: p.updated_at,
-      variables,
-      version: p.version,
-    });
-  }
-
-  public async getPrompt(idOrName: string, version?: number): Promise<Prompt | null> {
-    const isNumericId = /^\d+$/.test(idOrName);
-    let queryText: string;
-    const queryParams: (string | number)[] = [isNumericId ? parseInt(idOrName, 10) : idOrName];
-
+  public async getPrompt(id: string, version?: number): Promise<Prompt | null> {
     if (version !== undefined) {
-      queryText = `SELECT id FROM prompts WHERE ${
-        isNumericId ? 'id = $1' : 'name = $1'
-      } AND version = $2`;
-      queryParams.push(version);
-    } else {
-      queryText = `SELECT id FROM prompts WHERE ${
-        isNumericId ? 'id = $1' : 'name = $1'
-      } ORDER BY version DESC LIMIT 1`;
-    }
-
-    const res = await this.pool.query(queryText, queryParams);
-    if (res.rows.length === 0) {
-      return null;
+      return this.fetchPromptVersion(this.pool, id, version);
     }
-
-    return sanitizePromptMetadata(await this.getPromptById(res.rows[0].id));
+    const res = await this.pool.query(
+      `${PROMPT_VERSION_SELECT} WHERE v.prompt_id = $1 ORDER BY v.version DESC LIMIT 1`,
+      [id],
+    );
+    return res.rows.length > 0 ? this.rowToPrompt(res.rows[0]) : null;
   }
 
+  /**
+   * Apply changes to a version as a new version row, since stored versions are immutable.
+   * @returns The new version, after the latest one
+   */
   public async updatePrompt(id: string, version: number, prompt: Partial<Prompt>): Promise<Prompt> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
 
-      const promptResult = await client.query(
-        'SELECT id FROM prompts WHERE id = $1 AND version = $2',
-        [id, version],
-      );
-
-      if (promptResult.rows.length === 0) {
+      const latest = await this.lockPromptVersions(client, id);
+      const existing = await this.fetchPromptVersion(client, id, version);
+      if (!existing) {
         throw new Error(`Prompt with id ${id} and version ${version} not found`);
       }
-      const promptId = promptResult.rows[0].id;
-
-      const updatesToApply = promptSchemas.update.parse(prompt);
-
-      const setClauses: string[] = [];
-      const values: any[] = [];
-      let paramIndex = 1;
-
-      const updateMap: Record<string, any> = {};
-      if (updatesToApply.name !== undefined) updateMap.name = updatesToApply.name;
-      if (updatesToApply.description !== undefined)
-        updateMap.description = updatesToApply.description;
-      if (updatesToApply.content !== undefined) updateMap.content = updatesToApply.content;
-      if (updatesToApply.isTemplate !== undefined)
-        updateMap.is_template = updatesToApply.isTemplate;
-      if (updatesToApply.category !== undefined) updateMap.category = updatesToApply.category;
-      if (updatesToApply.metadata !== undefined) updateMap.metadata = updatesToApply.metadata;
-
-      for (const [key, value] of Object.entries(updateMap)) {
-        setClauses.push(`${key} = $${paramIndex++}`);
-        values.push(value);
-      }
-
-      setClauses.push(`updated_at = $${paramIndex++}`);
-      values.push(new Date());
-
-      if (setClauses.length > 0) {
-        values.push(promptId);
-        const updateQuery = `UPDATE prompts SET ${setClauses.join(', ')} WHERE id = $${paramIndex}`;
-        await client.query(updateQuery, values);
-      }
-
-      if (updatesToApply.tags) {
-        await this.setPromptTags(promptId, updatesToApply.tags);
-      }
-      if (updatesToApply.variables) {
-        await this.setTemplateVariables(
-          promptId,
-          this.extractVariableNames(updatesToApply.variables as any),
-        );
-      }
+      const now = new Date().toISOString();
+      const stored = await this.insertPromptVersion(client, {
+        ...existing,
+        ...prompt,
+        createdAt: now,
+        id,
+        updatedAt: now,
+        version: latest + 1,
+      });
 
       await client.query('COMMIT');
-      return sanitizePromptMetadata(await this.getPromptById(promptId));
+      return stored;
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -1013,46 +1206,31 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     }
   }
 
-  public async deletePrompt(idOrName: string, version?: number): Promise<boolean> {
+  /**
+   * Delete a version, or every version when none is given. The identity goes with its last
+   * version; tags and variables go with their version.
+   */
+  public async deletePrompt(id: string, version?: number): Promise<boolean> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
 
-      const isNumericId = /^\d+$/.test(idOrName);
-      const promptResult = await client.query(
-        `SELECT id FROM prompts WHERE ${isNumericId ? 'id = $1' : 'name = $1'}`,
-        [isNumericId ? parseInt(idOrName, 10) : idOrName],
-      );
-
-      if (promptResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return false;
-      }
-
-      const promptId = promptResult.rows[0].id;
       let deleteRes;
-
       if (version !== undefined) {
-        deleteRes = await client.query('DELETE FROM prompts WHERE id = $1 AND version = $2', [
-          promptId,
-          version,
-        ]);
-        const remainingVersionsResult = await client.query(
-          'SELECT COUNT(*) as count FROM prompts WHERE id = $1',
-          [promptId],
+        deleteRes = await client.query(
+          'DELETE FROM prompt_versions WHERE prompt_id = $1 AND version = $2',
+          [id, version],
+        );
+        await client.query(
+          'DELETE FROM prompts WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM prompt_versions WHERE prompt_id = $1)',
+          [id],
         );
-        if (parseInt(remainingVersionsResult.rows[0].count, 10) === 0) {
-          await client.query('DELETE FROM prompt_tags WHERE prompt_id = $1', [promptId]);
-          await client.query('DELETE FROM template_variables WHERE prompt_id = $1', [promptId]);
-        }
       } else {
-        await client.query('DELETE FROM prompt_tags WHERE prompt_id = $1', [promptId]);
-        await client.query('DELETE FROM template_variables WHERE prompt_id = $1', [promptId]);
-        deleteRes = await client.query('DELETE FROM prompts WHERE id = $1', [promptId]);
+        deleteRes = await client.query('DELETE FROM prompts WHERE id = $1', [id]);
       }
 
       await client.query('COMMIT');
-      return (deleteRes?.rowCount ?? 0) > 0;
+      return (deleteRes.rowCount ?? 0) > 0;
     } catch (e) {
       await client.query('ROLLBACK');
       throw e;
@@ -1061,46 +1239,63 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     }
   }
 
+  /**
+   * List the latest version of each prompt, or every version with allVersions.
+   */
   public async listPrompts(options?: ListPromptsOptions, allVersions = false): Promise<Prompt[]> {
-    const client = await this.pool.connect();
-    try {
-      let query = 'SELECT p.id FROM prompts p';
-      const whereClauses: string[] = [];
-      const params: any[] = [];
-
-      if (options?.search) {
-        params.push(`%${options.search}%`);
-        whereClauses.push(
-          `(p.name ILIKE $${params.length} OR p.description ILIKE $${params.length})`,
-        );
-      }
-
-      if (whereClauses.length > 0) {
-        query += ` WHERE ${whereClauses.join(' AND ')}`;
-      }
+    const whereClauses: string[] = [];
+    const params: unknown[] = [];
 
-      if (!allVersions) {
-        query = `
-          WITH latest_prompts AS (
-            SELECT id, MAX(version) as max_version
-            FROM prompts
-            GROUP BY id
-          )
-          SELECT p.id FROM prompts p
-          JOIN latest_prompts lp ON p.id = lp.id AND p.version = lp.max_version
-        `;
-      }
+    if (!allVersions) {
+      whereClauses.push(
+        'v.version = (SELECT MAX(version) FROM prompt_versions WHERE prompt_id = v.prompt_id)',
+      );
+    }
+    if (options?.isTemplate !== undefined) {
+      params.push(options.isTemplate);
+      whereClauses.push(`v.is_template = $${params.length}`);
+    }
+    if (options?.category) {
+      params.push(options.category);
+      whereClauses.push(`v.category = $${params.length}`);
+    }
+    if (options?.tags?.length) {
+      params.push(options.tags);
+      whereClauses.push(
+        `$${params.length}::text[] <@ ARRAY(SELECT t.name::text FROM prompt_tags pt JOIN tags t ON t.id = pt.tag_id WHERE pt.prompt_id = v.prompt_id AND pt.version = v.version)`,
+      );
+    }
+    if (options?.search) {
+      params.push(`%${options.search}%`);
+      whereClauses.push(
+        `(v.name ILIKE $${params.length} OR v.description ILIKE $${params.length} OR v.content ILIKE $${params.length})`,
+      );
+    }
 
-      const res = await client.query(query, params);
-      return Promise.all(res.rows.map(p => this.getPromptById(p.id)));
-    } finally {
-      client.release();
+    let query = PROMPT_VERSION_SELECT;
+    if (whereClauses.length > 0) {
+      query += ` WHERE ${whereClauses.join(' AND ')}`;
+    }
+    const sortColumn = options?.sort ? POSTGRES_SORT_COLUMNS[options.sort] : undefined;
+    query += sortColumn
+      ? ` ORDER BY v.${sortColumn} ${options?.order === 'desc' ? 'DESC' : 'ASC'}`
+      : ' ORDER BY v.prompt_id, v.version';
+    if (options?.limit !== undefined) {
+      params.push(options.limit);
+      query += ` LIMIT $${params.length}`;
     }
+    if (options?.offset !== undefined) {
+      params.push(options.offset);
+      query += ` OFFSET $${params.length}`;
+    }
+
+    const res = await this.pool.query(query, params);
+    return res.rows.map(row => this.rowToPrompt(row));
   }
 
   public async listPromptVersions(id: string): Promise<number[]> {
     const res = await this.pool.query(
-      'SELECT version FROM prompts WHERE name = $1 ORDER BY version ASC',
+      'SELECT version FROM prompt_versions WHERE prompt_id = $1 ORDER BY version ASC',
       [id],
     );
     return res.rows.map(r => r.version);
@@ -1114,6 +1309,11 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     return res.rows[0];
   }
 
+  public async listSequences(): Promise<PromptSequence[]> {
+    const res = await this.pool.query('SELECT * FROM sequences ORDER BY id');
+    return res.rows;
+  }
+
   public async saveSequence(sequence: PromptSequence): Promise<PromptSequence> {
     const { id, name, description, promptIds, createdAt, updatedAt, metadata } = sequence;
     const res = await this.pool.query(
@@ -1127,6 +1327,36 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
     await this.pool.query('DELETE FROM sequences WHERE id = $1', [id]);
   }
 
+  public async listHelpers(): Promise<HelperDefinition[]> {
+    const res = await this.pool.query('SELECT definition FROM template_helpers ORDER BY name');
+    return res.rows.map(row => row.definition);
+  }
+
+  public async saveHelper(helper: HelperDefinition): Promise<HelperDefinition> {
+    await this.pool.query(
+      'INSERT INTO template_helpers (name, definition) VALUES ($1, $2) ON CONFLICT (name) DO UPDATE SET definition = $2, updated_at = NOW()',
+      [helper.name, JSON.stringify(helper)],
+    );
+    return helper;
+  }
+
+  public async deleteHelper(name: string): Promise<boolean> {
+    const res = await this.pool.query('DELETE FROM template_helpers WHERE name = $1', [name]);
+    return (res.rowCount ?? 0) > 0;
+  }
+
+  public async saveAsset(id: string, data: Buffer): Promise<void> {
+    await this.pool.query(
+      'INSERT INTO prompt_assets (id, data) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING',
+      [id, data],
+    );
+  }
+
+  public async getAsset(id: string): Promise<Buffer | null> {
+    const res = await this.pool.query('SELECT data FROM prompt_assets WHERE id = $1', [id]);
+    return res.rows.length > 0 ? res.rows[0].data : null;
+  }
+
   public async healthCheck(): Promise<boolean> {
     try {
       const client = await this.pool.connect();
@@ -1218,6 +1448,386 @@ export class PostgresAdapter implements IPromptRepository, ISequenceRepository,
   }
 }
 
+/**
+ * The SQLite schema. Prompts are stored as JSON, next to the columns listPrompts filters and
+ * sorts on, with an FTS5 index of their text that triggers keep in sync.
+ */
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS prompts (
+    pk INTEGER PRIMARY KEY,
+    id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    content TEXT NOT NULL,
+    category TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    is_template INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (id, version)
+  );
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS prompts_fts USING fts5(
+    name, description, content, tags,
+    content = 'prompts', content_rowid = 'pk', tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS prompts_fts_insert AFTER INSERT ON prompts BEGIN
+    INSERT INTO prompts_fts (rowid, name, description, content, tags)
+    VALUES (new.pk, new.name, new.description, new.content, new.tags);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS prompts_fts_delete AFTER DELETE ON prompts BEGIN
+    INSERT INTO prompts_fts (prompts_fts, rowid, name, description, content, tags)
+    VALUES ('delete', old.pk, old.name, old.description, old.content, old.tags);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS prompts_fts_update AFTER UPDATE ON prompts BEGIN
+    INSERT INTO prompts_fts (prompts_fts, rowid, name, description, content, tags)
+    VALUES ('delete', old.pk, old.name, old.description, old.content, old.tags);
+    INSERT INTO prompts_fts (rowid, name, description, content, tags)
+    VALUES (new.pk, new.name, new.description, new.content, new.tags);
+  END;
+
+  CREATE TABLE IF NOT EXISTS sequences (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS workflow_executions (
+    id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow_id
+    ON workflow_executions (workflow_id);
+
+  CREATE TABLE IF NOT EXISTS template_helpers (
+    name TEXT PRIMARY KEY,
+    definition TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS prompt_assets (
+    id TEXT PRIMARY KEY,
+    data BLOB NOT NULL
+  );
+`;
+
+/** The prompt fields listPrompts can sort by, and their columns */
+const SQLITE_SORT_COLUMNS: Record<string, string> = {
+  category: 'category',
+  createdAt: 'created_at',
+  id: 'id',
+  name: 'name',
+  updatedAt: 'updated_at',
+  version: 'version',
+};
+
+/**
+ * An FTS5 query for the words of a search, each matched as a prefix. Quoting the words keeps
+ * FTS5 operators in a search from being interpreted.
+ */
+function ftsQuery(search: string): string {
+  return search
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => `"${word.replace(/"/g, '""')}"*`)
+    .join(' ');
+}
+
+/**
+ * SqliteAdapter Implementation
+ * Stores prompts in an embedded SQLite database, for durable storage on a single node
+ */
+export class SqliteAdapter
+  implements IPromptRepository, ISequenceRepository, IWorkflowRepository, IHelperRepository
+{
+  private db?: BetterSqlite3.Database;
+  private filename: string;
+
+  /**
+   * @param options.filename The database file, created with its directory if missing
+   */
+  public constructor(options: { filename: string }) {
+    this.filename = options.filename;
+  }
+
+  public async connect(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+    // Loaded here so that the native module is only needed when SQLite storage is used
+    const { default: Database } = await import('better-sqlite3');
+    if (this.filename !== ':memory:') {
+      await fsp.mkdir(path.dirname(this.filename), { recursive: true });
+    }
+    const db = new Database(this.filename);
+    db.pragma('journal_mode = WAL');
+    // Every commit is synced to disk, so it survives a crash of the machine
+    db.pragma('synchronous = FULL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(SQLITE_SCHEMA);
+    this.db = db;
+  }
+
+  public async disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  public async isConnected(): Promise<boolean> {
+    return this.db?.open ?? false;
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      this.database().prepare('SELECT 1').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private database(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new Error('SQLite storage not connected');
+    }
+    return this.db;
+  }
+
+  /** The named parameters of a prompt's row */
+  private promptRow(prompt: Prompt) {
+    return {
+      category: prompt.category ?? null,
+      content: prompt.content,
+      created_at: prompt.createdAt,
+      data: JSON.stringify(prompt),
+      description: prompt.description ?? null,
+      id: prompt.id,
+      is_template: prompt.isTemplate ? 1 : 0,
+      name: prompt.name,
+      tags: JSON.stringify(prompt.tags ?? []),
+      updated_at: prompt.updatedAt,
+      version: prompt.version,
+    };
+  }
+
+  public async clearAll(): Promise<void> {
+    this.database().exec(`
+      DELETE FROM prompts;
+      DELETE FROM sequences;
+      DELETE FROM workflow_executions;
+      DELETE FROM template_helpers;
+      DELETE FROM prompt_assets;
+    `);
+  }
+
+  public async savePrompt(prompt: Prompt): Promise<Prompt> {
+    const db = this.database();
+    const save = db.transaction((data: Prompt) => {
+      const { latest } = db
+        .prepare('SELECT MAX(version) AS latest FROM prompts WHERE id = ?')
+        .get(data.id) as { latest: number | null };
+      const taken = db
+        .prepare('SELECT 1 FROM prompts WHERE id = ? AND version = ?')
+        .get(data.id, data.version);
+      // Saving over a stored version adds the next version instead
+      const saved = taken ? { ...data, version: (latest ?? 0) + 1 } : data;
+      db.prepare(
+        'INSERT INTO prompts (id, version, name, description, content, category, tags, is_template, created_at, updated_at, data) VALUES (@id, @version, @name, @description, @content, @category, @tags, @is_template, @created_at, @updated_at, @data)',
+      ).run(this.promptRow(saved));
+      return saved;
+    });
+    return sanitizePromptMetadata(save.immediate(prompt));
+  }
+
+  public async getPrompt(id: string, version?: number): Promise<Prompt | null> {
+    const row = (
+      version === undefined
+        ? this.database()
+            .prepare('SELECT data FROM prompts WHERE id = ? ORDER BY version DESC LIMIT 1')
+            .get(id)
+        : this.database()
+            .prepare('SELECT data FROM prompts WHERE id = ? AND version = ?')
+            .get(id, version)
+    ) as { data: string } | undefined;
+    return row ? sanitizePromptMetadata(JSON.parse(row.data) as Prompt) : null;
+  }
+
+  public async updatePrompt(id: string, version: number, prompt: Partial<Prompt>): Promise<Prompt> {
+    const db = this.database();
+    const update = db.transaction(() => {
+      const row = db
+        .prepare('SELECT data FROM prompts WHERE id = ? AND version = ?')
+        .get(id, version) as { data: string } | undefined;
+      if (!row) {
+        throw new Error(`Prompt with id ${id} and version ${version} not found`);
+      }
+      const updated: Prompt = {
+        ...(JSON.parse(row.data) as Prompt),
+        ...prompt,
+        id,
+        version,
+        updatedAt: new Date().toISOString(),
+      };
+      db.prepare(
+        'UPDATE prompts SET name = @name, description = @description, content = @content, category = @category, tags = @tags, is_template = @is_template, created_at = @created_at, updated_at = @updated_at, data = @data WHERE id = @id AND version = @version',
+      ).run(this.promptRow(updated));
+      return updated;
+    });
+    return sanitizePromptMetadata(update.immediate());
+  }
+
+  public async deletePrompt(id: string, version?: number): Promise<boolean> {
+    const result =
+      version === undefined
+        ? this.database().prepare('DELETE FROM prompts WHERE id = ?').run(id)
+        : this.database()
+            .prepare('DELETE FROM prompts WHERE id = ? AND version = ?')
+            .run(id, version);
+    return result.changes > 0;
+  }
+
+  public async listPromptVersions(id: string): Promise<number[]> {
+    const rows = this.database()
+      .prepare('SELECT version FROM prompts WHERE id = ? ORDER BY version ASC')
+      .all(id) as Array<{ version: number }>;
+    return rows.map(row => row.version);
+  }
+
+  /**
+   * List prompts, latest versions only unless allVersions is set. A search matches prompts
+   * whose name, description, content or tags have words starting with each of its words,
+   * ranked by relevance with matches in the name first, unless a sort is given.
+   */
+  public async listPrompts(options?: ListPromptsOptions, allVersions = false): Promise<Prompt[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    let from = 'prompts p';
+    let orderBy = 'p.id, p.version';
+
+    if (!allVersions) {
+      where.push('p.version = (SELECT MAX(version) FROM prompts WHERE id = p.id)');
+    }
+    if (options?.isTemplate !== undefined) {
+      where.push('p.is_template = ?');
+      params.push(options.isTemplate ? 1 : 0);
+    }
+    if (options?.category) {
+      where.push('p.category = ?');
+      params.push(options.category);
+    }
+    for (const tag of options?.tags ?? []) {
+      where.push('EXISTS (SELECT 1 FROM json_each(p.tags) WHERE value = ?)');
+      params.push(tag);
+    }
+    const search = options?.search ? ftsQuery(options.search) : '';
+    if (search) {
+      from += ' JOIN prompts_fts ON prompts_fts.rowid = p.pk';
+      where.push('prompts_fts MATCH ?');
+      params.push(search);
+      // Weights of the name, description, content and tags columns
+      orderBy = 'bm25(prompts_fts, 10.0, 5.0, 1.0, 2.0)';
+    }
+    const sortColumn = options?.sort ? SQLITE_SORT_COLUMNS[options.sort] : undefined;
+    if (sortColumn) {
+      orderBy = `p.${sortColumn} ${options?.order === 'desc' ? 'DESC' : 'ASC'}`;
+    }
+    params.push(options?.limit ?? -1, options?.offset ?? 0);
+
+    const rows = this.database()
+      .prepare(
+        `SELECT p.data FROM ${from}${where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+      )
+      .all(...params) as Array<{ data: string }>;
+    return rows.map(row => sanitizePromptMetadata(JSON.parse(row.data) as Prompt));
+  }
+
+  public async getSequence(id: string): Promise<PromptSequence | null> {
+    const row = this.database().prepare('SELECT data FROM sequences WHERE id = ?').get(id) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  public async listSequences(): Promise<PromptSequence[]> {
+    const rows = this.database().prepare('SELECT data FROM sequences ORDER BY id').all() as Array<{
+      data: string;
+    }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  public async saveSequence(sequence: PromptSequence): Promise<PromptSequence> {
+    this.database()
+      .prepare(
+        'INSERT INTO sequences (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data',
+      )
+      .run(sequence.id, JSON.stringify(sequence));
+    return sequence;
+  }
+
+  public async deleteSequence(id: string): Promise<void> {
+    this.database().prepare('DELETE FROM sequences WHERE id = ?').run(id);
+  }
+
+  public async saveWorkflowState(state: WorkflowExecutionState): Promise<void> {
+    this.database()
+      .prepare(
+        'INSERT INTO workflow_executions (id, workflow_id, data) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data',
+      )
+      .run(state.executionId, state.workflowId, JSON.stringify(state));
+  }
+
+  public async getWorkflowState(executionId: string): Promise<WorkflowExecutionState | null> {
+    const row = this.database()
+      .prepare('SELECT data FROM workflow_executions WHERE id = ?')
+      .get(executionId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  public async listWorkflowStates(workflowId: string): Promise<WorkflowExecutionState[]> {
+    const rows = this.database()
+      .prepare('SELECT data FROM workflow_executions WHERE workflow_id = ? ORDER BY rowid')
+      .all(workflowId) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  public async listHelpers(): Promise<HelperDefinition[]> {
+    const rows = this.database()
+      .prepare('SELECT definition FROM template_helpers ORDER BY name')
+      .all() as Array<{ definition: string }>;
+    return rows.map(row => JSON.parse(row.definition));
+  }
+
+  public async saveHelper(helper: HelperDefinition): Promise<HelperDefinition> {
+    this.database()
+      .prepare(
+        'INSERT INTO template_helpers (name, definition) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET definition = excluded.definition',
+      )
+      .run(helper.name, JSON.stringify(helper));
+    return helper;
+  }
+
+  public async deleteHelper(name: string): Promise<boolean> {
+    const result = this.database().prepare('DELETE FROM template_helpers WHERE name = ?').run(name);
+    return result.changes > 0;
+  }
+
+  public async saveAsset(id: string, data: Buffer): Promise<void> {
+    this.database()
+      .prepare('INSERT INTO prompt_assets (id, data) VALUES (?, ?) ON CONFLICT (id) DO NOTHING')
+      .run(id, data);
+  }
+
+  public async getAsset(id: string): Promise<Buffer | null> {
+    const row = this.database().prepare('SELECT data FROM prompt_assets WHERE id = ?').get(id) as
+      | { data: Buffer }
+      | undefined;
+    return row?.data ?? null;
+  }
+}
+
 function sanitizePromptMetadata<T extends { metadata?: any }>(prompt: T): T {
   if ('metadata' in prompt && prompt.metadata === null) {
     return { ...prompt, metadata: undefined };
@@ -0,0 +1,221 @@
+import type { Redis } from 'ioredis';
+import type { Logger } from 'pino';
+
+import type { EnvVars } from './config.js';
+import type { ICache } from './interfaces.js';
+import { getRedisClient } from './utils.js';
+
+/**
+ * An in-process cache that drops the least recently used entries beyond maxEntries and
+ * entries older than ttl.
+ */
+export class MemoryCache implements ICache {
+  /** Entries by key, least recently used first */
+  private entries = new Map<string, { expires: number; value: unknown }>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+
+  /**
+   * @param options.maxEntries The entries kept; 0 caches nothing
+   * @param options.ttl Seconds an entry is kept; 0 keeps entries until they are evicted
+   */
+  public constructor(options: { maxEntries?: number; ttl?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttl = options.ttl ?? 0;
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires < Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return structuredClone(entry.value) as T;
+  }
+
+  public async set<T>(key: string, value: T): Promise<void> {
+    this.store(key, structuredClone(value));
+  }
+
+  /**
+   * Sets are kept as arrays of distinct members. The set is read and written without awaiting
+   * in between, so concurrent adds all stay.
+   */
+  public async addToSet(key: string, members: string[]): Promise<void> {
+    const entry = this.entries.get(key);
+    const current = entry && entry.expires >= Date.now() ? entry.value : undefined;
+    this.store(key, Array.from(new Set([...(Array.isArray(current) ? current : []), ...members])));
+  }
+
+  public async getSet(key: string): Promise<string[]> {
+    const members = await this.get<unknown>(key);
+    return Array.isArray(members) ? members : [];
+  }
+
+  public async invalidate(prefixes: string[]): Promise<void> {
+    for (const key of Array.from(this.entries.keys())) {
+      if (prefixes.some(prefix => key.startsWith(prefix))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /** Keeps a value as the most recently used entry, evicting the least recently used */
+  private store(key: string, value: unknown): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, {
+      expires: this.ttl > 0 ? Date.now() + this.ttl * 1000 : Infinity,
+      value,
+    });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  public async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/** Escapes the glob characters of SCAN MATCH patterns */
+const globEscape = (text: string) => text.replace(/[*?[\]\\]/g, '\\$&');
+
+/**
+ * A cache in Redis, shared by every server instance, with a small MemoryCache in front of it
+ * for the entries each instance uses most. Invalidations are published on a channel, so every
+ * instance also drops them from its own MemoryCache. Sets are Redis sets, read from Redis
+ * every time, since other instances add to them.
+ */
+export class RedisCache implements ICache {
+  private readonly channel: string;
+  private readonly local: MemoryCache;
+  private readonly namespace: string;
+  private readonly ttl: number;
+  private subscriber?: Redis;
+
+  /**
+   * @param options.namespace Prepended to keys and the invalidation channel, so servers can
+   * share a Redis database
+   * @param options.ttl Seconds an entry is kept; 0 keeps entries until they are invalidated
+   * @param options.localEntries The entries kept in the process
+   */
+  public constructor(
+    private readonly client: Redis,
+    options: { localEntries?: number; namespace?: string; ttl?: number } = {},
+  ) {
+    this.namespace = options.namespace ?? 'mcp-prompts:';
+    this.channel = `${this.namespace}invalidate`;
+    this.ttl = options.ttl ?? 0;
+    this.local = new MemoryCache({ maxEntries: options.localEntries ?? 100, ttl: this.ttl });
+  }
+
+  /**
+   * Subscribe to the invalidations of the other instances.
+   */
+  public async connect(): Promise<void> {
+    this.subscriber = this.client.duplicate();
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== this.channel) {
+        return;
+      }
+      let prefixes: unknown;
+      try {
+        prefixes = JSON.parse(message);
+      } catch {
+        return;
+      }
+      // Ignore messages not published by invalidate
+      if (Array.isArray(prefixes) && prefixes.every(prefix => typeof prefix === 'string')) {
+        void this.local.invalidate(prefixes);
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const local = await this.local.get<T>(key);
+    if (local !== undefined) {
+      return local;
+    }
+    const stored = await this.client.get(this.namespace + key);
+    if (stored === null) {
+      return undefined;
+    }
+    const value = JSON.parse(stored) as T;
+    await this.local.set(key, value);
+    return value;
+  }
+
+  public async set<T>(key: string, value: T): Promise<void> {
+    const json = JSON.stringify(value);
+    if (this.ttl > 0) {
+      await this.client.set(this.namespace + key, json, 'EX', this.ttl);
+    } else {
+      await this.client.set(this.namespace + key, json);
+    }
+    await this.local.set(key, value);
+  }
+
+  public async addToSet(key: string, members: string[]): Promise<void> {
+    await this.client.sadd(this.namespace + key, ...members);
+    if (this.ttl > 0) {
+      await this.client.expire(this.namespace + key, this.ttl);
+    }
+  }
+
+  public async getSet(key: string): Promise<string[]> {
+    return this.client.smembers(this.namespace + key);
+  }
+
+  public async invalidate(prefixes: string[]): Promise<void> {
+    await this.local.invalidate(prefixes);
+    for (const prefix of prefixes) {
+      const pattern = `${globEscape(this.namespace + prefix)}*`;
+      let cursor = '0';
+      do {
+        const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+        if (keys.length > 0) {
+          await this.client.del(...keys);
+        }
+        cursor = next;
+      } while (cursor !== '0');
+    }
+    await this.client.publish(this.channel, JSON.stringify(prefixes));
+  }
+
+  public async close(): Promise<void> {
+    await this.subscriber?.quit();
+    await this.local.close();
+  }
+}
+
+/**
+ * The cache CACHE_TYPE selects. A Redis cache without a configured Redis server falls back to
+ * memory.
+ */
+export async function createCache(env: EnvVars, logger?: Logger): Promise<ICache> {
+  if (env.CACHE_TYPE === 'redis') {
+    const client = getRedisClient();
+    if (client) {
+      logger?.info(`Using Redis cache at ${env.redis?.host}`);
+      const cache = new RedisCache(client, { ttl: env.redis?.ttl ?? env.CACHE_TTL });
+      await cache.connect();
+      return cache;
+    }
+    logger?.warn('CACHE_TYPE is redis but REDIS_HOST is not set, using the memory cache');
+  }
+  return new MemoryCache({
+    maxEntries: env.CACHE_TYPE === 'none' ? 0 : env.CACHE_MAX_ENTRIES,
+    ttl: env.CACHE_TTL,
+  });
+}
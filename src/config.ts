@@ -7,6 +7,13 @@ import { z } from 'zod';
  */
 export const EnvSchema = z.object({
   BACKUPS_DIR: z.string().default('./data/backups'),
+  // Cache of prompts and rendered templates: memory (LRU), redis or none
+  CACHE_MAX_ENTRIES: z.coerce.number().default(1000),
+
+  CACHE_TTL: z.coerce.number().default(300),
+
+  CACHE_TYPE: z.enum(['memory', 'redis', 'none']).default('memory'),
+
   CORS_ORIGIN: z.string().optional(),
 
   ELASTICSEARCH_INDEX: z.string().optional(),
@@ -43,12 +50,24 @@ export const EnvSchema = z.object({
 
   ENABLE_SSE: z.coerce.boolean().optional(),
 
+  // Template helpers: a directory of helper modules and the time limit of each call
+  HELPERS_DIR: z.string().optional(),
+
+  HELPER_TIMEOUT_MS: z.coerce.number().default(50),
+
   HOST: z.string().default('localhost'),
 
   HTTP_SERVER: z.coerce.boolean().default(true),
 
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 
+  MCP_HTTP_PATH: z.string().default('/mcp'),
+
+  // Streamable HTTP sessions: seconds an idle one is kept and how many may be open
+  MCP_MAX_SESSIONS: z.coerce.number().default(100),
+
+  MCP_SESSION_IDLE_TIMEOUT: z.coerce.number().default(1800),
+
   MCP_SERVER: z.coerce.boolean().default(false),
 
   MDC_BACKUP_ENABLED: z.coerce.boolean().optional(),
@@ -79,6 +98,8 @@ export const EnvSchema = z.object({
 
   PROMPTS_DIR: z.string().default('./data/prompts'),
 
+  PROMPT_RESOURCES_DIR: z.string().default('./data/resources'),
+
   // Sequences
   SEQUENCES_MAX_STEPS: z.coerce.number().optional(),
 
@@ -88,7 +109,12 @@ export const EnvSchema = z.object({
 
   SSE_PATH: z.string().optional(),
 
-  STORAGE_TYPE: z.enum(['file', 'postgres', 'memory', 'mdc', 'elasticsearch']).default('file'),
+  // The database file of sqlite storage
+  SQLITE_PATH: z.string().default('./data/mcp-prompts.db'),
+
+  STORAGE_TYPE: z
+    .enum(['file', 'postgres', 'memory', 'sqlite', 'mdc', 'elasticsearch'])
+    .default('file'),
 
   STREAMING_CHUNK_SIZE: z.coerce.number().optional(),
 
@@ -97,6 +123,9 @@ export const EnvSchema = z.object({
 
   STREAMING_MAX_TOKENS: z.coerce.number().optional(),
 
+  // Token counting, with the .tiktoken rank files of the tokenizers
+  TOKENIZERS_DIR: z.string().default('./data/tokenizers'),
+
   VERSION: z.string().default('1.0.0'),
 
   redis: z
@@ -115,23 +144,40 @@ export type EnvVars = z.infer<typeof EnvSchema>;
 export const McpConfigSchema = EnvSchema.extend({
   storage: z.object({
     database: z.string().optional(),
+    filename: z.string().optional(),
     host: z.string().optional(),
     maxConnections: z.number().optional(),
     password: z.string().optional(),
     port: z.number().optional(),
     promptsDir: z.string(),
     ssl: z.boolean().optional(),
-    type: z.enum(['file', 'memory', 'postgres']),
+    type: z.enum(['file', 'memory', 'postgres', 'sqlite']),
     user: z.string().optional(),
   }),
 });
 
+/**
+ * The redis block from REDIS_HOST, REDIS_PORT, REDIS_PASSWORD, REDIS_DB and REDIS_TTL
+ */
+function redisEnv(env: NodeJS.ProcessEnv) {
+  if (!env.REDIS_HOST) {
+    return undefined;
+  }
+  return {
+    db: env.REDIS_DB,
+    host: env.REDIS_HOST,
+    password: env.REDIS_PASSWORD,
+    port: env.REDIS_PORT,
+    ttl: env.REDIS_TTL,
+  };
+}
+
 /**
  * Loads and validates the server configuration from environment variables using Zod.
  * Throws a clear error and exits if validation fails.
  */
 export function loadConfig(): EnvVars {
-  const result = EnvSchema.safeParse(process.env);
+  const result = EnvSchema.safeParse({ redis: redisEnv(process.env), ...process.env });
   if (!result.success) {
     // Format Zod errors for clarity
     const errors = result.error.errors.map(e => `- ${e.path.join('.')}: ${e.message}`);
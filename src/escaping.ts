@@ -0,0 +1,34 @@
+import type { EscapingMode } from './interfaces.js';
+
+const XML_ESCAPES: Record<string, string> = {
+  '"': '&quot;',
+  '&': '&amp;',
+  "'": '&apos;',
+  '<': '&lt;',
+  '>': '&gt;',
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '"': '&quot;',
+  '&': '&amp;',
+  "'": '&#x27;',
+  '<': '&lt;',
+  '=': '&#x3D;',
+  '>': '&gt;',
+  '`': '&#x60;',
+};
+
+/**
+ * Escapes text for the context a variable is rendered into, so a value cannot end the string,
+ * element or code block around it.
+ */
+export const ESCAPERS: Record<EscapingMode, (text: string) => string> = {
+  html: text => text.replace(/[&<>"'`=]/g, char => HTML_ESCAPES[char]),
+  // Inside a JSON string literal, without the quotes
+  'json-string': text => JSON.stringify(text).slice(1, -1),
+  // Inside a ``` code block, where three backticks would close the block, so runs of them
+  // are split with zero-width spaces
+  'markdown-fence': text => text.replace(/`{3,}/g, run => run.split('').join('\u200B')),
+  none: text => text,
+  xml: text => text.replace(/[&<>"']/g, char => XML_ESCAPES[char]),
+};
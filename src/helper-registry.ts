@@ -0,0 +1,309 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import vm from 'vm';
+
+import Handlebars from 'handlebars';
+
+import { NotFoundError, ValidationError } from './errors.js';
+import type { HelperDefinition, HelperInfo, IHelperRepository } from './interfaces.js';
+import { helperDefinitionSchema } from './schemas.js';
+import { layoutHelpers } from './template-layouts.js';
+import { templateHelpers } from './utils.js';
+
+/**
+ * The message of an error. Errors thrown by sandboxed code come from another realm, so they
+ * are not instances of this realm's Error.
+ */
+function errorMessage(error: unknown): string {
+  return String(
+    typeof error === 'object' && error !== null && 'message' in error ? error.message : error,
+  );
+}
+
+/** Loaded into every sandbox: keeps its helpers and calls them with JSON in and out */
+const SANDBOX_RUNTIME = `
+'use strict';
+const helpers = Object.create(null);
+globalThis.__register = (name, helper) => {
+  helpers[name] = helper;
+};
+globalThis.__call = (name, args) => JSON.stringify({ value: helpers[name](...JSON.parse(args)) });
+`;
+
+/** Turns a definition into a helper, in the sandbox of the declarative helpers */
+const DECLARATIVE_RUNTIME = `
+'use strict';
+globalThis.__define = json => {
+  const definition = JSON.parse(json);
+  const text = value => (value === undefined || value === null ? '' : String(value));
+  switch (definition.type) {
+    case 'replace': {
+      const pattern = new RegExp(definition.pattern, definition.flags ?? 'g');
+      __register(definition.name, value => text(value).replace(pattern, definition.replacement));
+      break;
+    }
+    case 'lookup':
+      __register(definition.name, value =>
+        Object.prototype.hasOwnProperty.call(definition.table, text(value))
+          ? definition.table[text(value)]
+          : (definition.fallback ?? text(value)),
+      );
+      break;
+    case 'format':
+      __register(definition.name, (...args) => {
+        const { hash } = args.pop();
+        return definition.format.replace(/{(\\w+)}/g, (tag, key) =>
+          text(/^\\d+$/.test(key) ? args[Number(key)] : hash[key]),
+        );
+      });
+      break;
+  }
+};
+`;
+
+const CALL = new vm.Script('__call(__name, __args)');
+const DEFINE = new vm.Script('__define(__definition)');
+
+/**
+ * Wraps a module as CommonJS and registers what it exports: a function is one helper named
+ * after the file, an object holds helpers by name. Returns the names and descriptions.
+ */
+const moduleScript = (source: string, name: string) => `(() => {
+const module = { exports: {} };
+(function (module, exports) {
+${source}
+})(module, module.exports);
+const exported = typeof module.exports === 'function'
+  ? { [${JSON.stringify(name)}]: module.exports }
+  : module.exports;
+const loaded = [];
+for (const [name, helper] of Object.entries(exported ?? {})) {
+  if (typeof helper === 'function') {
+    __register(name, helper);
+    loaded.push({ name, description: typeof helper.description === 'string' ? helper.description : undefined });
+  }
+}
+return JSON.stringify(loaded);
+})()`;
+
+/**
+ * A V8 context that runs helpers with a time limit. It has no require, process or timers, it
+ * cannot compile strings to code, and values only cross it as JSON, so helpers never hold
+ * objects of the server. The vm module is not a security boundary against hostile code, so
+ * only operators can add modules.
+ */
+class HelperSandbox {
+  private readonly context: vm.Context;
+
+  public constructor(private readonly timeout: number) {
+    this.context = vm.createContext(
+      {},
+      { codeGeneration: { strings: false, wasm: false }, microtaskMode: 'afterEvaluate' },
+    );
+    this.run(new vm.Script(SANDBOX_RUNTIME));
+  }
+
+  /**
+   * @throws Error if the script throws or runs out of time
+   */
+  public run(script: vm.Script, values: Record<string, string> = {}): unknown {
+    Object.assign(this.context, values);
+    try {
+      return script.runInContext(this.context, { timeout: this.timeout });
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException | null)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new Error(`took longer than ${this.timeout}ms`);
+      }
+      throw new Error(errorMessage(e));
+    }
+  }
+
+  public call(name: string, args: unknown[]): unknown {
+    let result: unknown;
+    try {
+      result = this.run(CALL, { __args: JSON.stringify(args), __name: name });
+    } catch (e: unknown) {
+      throw new Error(`Helper '${name}' failed: ${errorMessage(e)}`);
+    }
+    if (typeof result !== 'string') {
+      throw new Error(`Helper '${name}' failed: the sandbox was changed.`);
+    }
+    return (JSON.parse(result) as { value?: unknown }).value;
+  }
+}
+
+/** Names templates cannot give to helpers of their own */
+const BUILT_IN_HELPERS = [...Object.keys(templateHelpers), ...Object.keys(layoutHelpers({}))];
+const RESERVED_HELPERS = new Set([
+  ...BUILT_IN_HELPERS,
+  ...['blockHelperMissing', 'each', 'helperMissing', 'if', 'log', 'lookup', 'unless', 'with'],
+]);
+
+const DEFAULT_TIMEOUT = 50;
+
+/**
+ * The helpers operators add to the built-in ones: modules from a directory and declarative
+ * helpers kept in the repository. Each module runs in a sandbox of its own, and the
+ * declarative helpers share one.
+ */
+export class HelperRegistry {
+  private readonly helpers = new Map<string, { info: HelperInfo; sandbox: HelperSandbox }>();
+  private readonly declarativeSandbox: HelperSandbox;
+  private readonly timeout: number;
+
+  /**
+   * @param repository Where declarative helpers are kept. Without one they are lost on restart.
+   * @param options.directory The helper modules: CommonJS .js or .cjs files without imports
+   * @param options.timeout The milliseconds a helper call, or loading a module, may take
+   */
+  public constructor(
+    private readonly repository?: IHelperRepository,
+    private readonly options: { directory?: string; timeout?: number } = {},
+  ) {
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.declarativeSandbox = new HelperSandbox(this.timeout);
+    this.declarativeSandbox.run(new vm.Script(DECLARATIVE_RUNTIME));
+  }
+
+  /**
+   * Load the modules and the stored declarative helpers. Helpers that fail to load, or whose
+   * names are taken, are skipped with a warning.
+   */
+  public async load(): Promise<void> {
+    if (this.options.directory) {
+      await this.loadModules(this.options.directory);
+    }
+    for (const definition of (await this.repository?.listHelpers()) ?? []) {
+      try {
+        this.define(definition);
+      } catch (e: unknown) {
+        console.warn(`Declarative helper '${definition.name}' was not loaded: ${errorMessage(e)}`);
+      }
+    }
+  }
+
+  private async loadModules(directory: string): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(directory);
+    } catch {
+      console.warn(`Helper modules directory not found: ${directory}`);
+      return;
+    }
+    for (const file of files.filter(f => /\.c?js$/.test(f)).sort()) {
+      const filename = path.join(directory, file);
+      const sandbox = new HelperSandbox(this.timeout);
+      try {
+        const source = await fs.readFile(filename, 'utf8');
+        const script = new vm.Script(moduleScript(source, path.parse(file).name), {
+          filename,
+          lineOffset: -3,
+        });
+        const loaded: Array<{ name: string; description?: string }> = JSON.parse(
+          sandbox.run(script) as string,
+        );
+        for (const { name, description } of loaded) {
+          if (this.isTaken(name)) {
+            console.warn(`Helper '${name}' from ${file} was not loaded: the name is taken.`);
+            continue;
+          }
+          this.helpers.set(name, {
+            info: { description, module: file, name, source: 'module' },
+            sandbox,
+          });
+        }
+      } catch (e: unknown) {
+        console.warn(`Helper module ${file} was not loaded: ${errorMessage(e)}`);
+      }
+    }
+  }
+
+  private isTaken(name: string): boolean {
+    return RESERVED_HELPERS.has(name) || this.helpers.has(name);
+  }
+
+  /**
+   * @throws Error if the definition does not compile, such as an invalid regular expression
+   */
+  private define(definition: HelperDefinition): HelperInfo {
+    this.declarativeSandbox.run(DEFINE, { __definition: JSON.stringify(definition) });
+    const info: HelperInfo = {
+      definition,
+      description: definition.description,
+      name: definition.name,
+      source: 'declarative',
+    };
+    this.helpers.set(definition.name, { info, sandbox: this.declarativeSandbox });
+    return info;
+  }
+
+  /**
+   * Add or replace a declarative helper.
+   * @throws ValidationError if the definition is invalid or a built-in or module helper has
+   * the name
+   */
+  public async saveHelper(definition: HelperDefinition): Promise<HelperInfo> {
+    const parsed = helperDefinitionSchema.parse(definition) as HelperDefinition;
+    const existing = this.helpers.get(parsed.name);
+    if (RESERVED_HELPERS.has(parsed.name) || (existing && existing.info.source !== 'declarative')) {
+      throw new ValidationError(`Helper '${parsed.name}' is already defined.`, [
+        { message: `Helper '${parsed.name}' is already defined.`, path: ['name'] },
+      ]);
+    }
+    let info: HelperInfo;
+    try {
+      info = this.define(parsed);
+    } catch (e: unknown) {
+      const message = errorMessage(e);
+      throw new ValidationError(`Invalid helper '${parsed.name}': ${message}`, [
+        { message, path: parsed.type === 'replace' ? ['pattern'] : [] },
+      ]);
+    }
+    await this.repository?.saveHelper(parsed);
+    return info;
+  }
+
+  /**
+   * @throws NotFoundError if there is no declarative helper with the name
+   */
+  public async deleteHelper(name: string): Promise<void> {
+    if (this.helpers.get(name)?.info.source !== 'declarative') {
+      throw new NotFoundError(`Declarative helper not found: ${name}`);
+    }
+    await this.repository?.deleteHelper(name);
+    this.helpers.delete(name);
+  }
+
+  /**
+   * Every helper templates can call, built-in ones first
+   */
+  public list(): HelperInfo[] {
+    return [
+      ...BUILT_IN_HELPERS.map((name): HelperInfo => ({ name, source: 'built-in' })),
+      ...Array.from(this.helpers.values(), ({ info }) => info).sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    ];
+  }
+
+  /** The names of the helpers added to the built-in ones */
+  public names(): string[] {
+    return Array.from(this.helpers.keys());
+  }
+
+  /**
+   * The added helpers for a Handlebars environment. They get their arguments and, as the last
+   * one, { hash } with the key=value options.
+   */
+  public handlebarsHelpers(): Record<string, Handlebars.HelperDelegate> {
+    return Object.fromEntries(
+      Array.from(this.helpers, ([name, { sandbox }]) => [
+        name,
+        (...args: unknown[]) => {
+          const options = args.pop() as Handlebars.HelperOptions;
+          return sandbox.call(name, [...args, { hash: options.hash }]);
+        },
+      ]),
+    );
+  }
+}
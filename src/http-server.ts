@@ -1,6 +1,4 @@
 import express from 'express';
-import fs from 'fs';
-import path from 'path';
 import http from 'http';
 import helmet from 'helmet';
 import cors from 'cors';
@@ -8,7 +6,7 @@ import rateLimit from 'express-rate-limit';
 import swaggerJSDoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { z } from 'zod';
-import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Request, Response, NextFunction } from 'express';
 import catalog from '@sparesparrow/mcp-prompts-catalog';
 
@@ -16,18 +14,23 @@ import type { PromptService } from './prompt-service.js';
 import type { ISequenceApplication } from './sequence-service.js';
 import type { IWorkflowApplication } from './workflow-service.js';
 import { AppError, HttpErrorCode } from './errors.js';
+import { HelperRegistry } from './helper-registry.js';
+import { createStreamableHttpHandler } from './mcp-server.js';
 import {
   auditLogWorkflowEvent,
+  getAllWorkflows,
+  getAllWorkflowVersions,
   getWorkflowRateLimiter,
   HttpRunner,
+  loadWorkflowFromFile,
   PromptRunner,
   releaseWorkflowSlot,
+  saveWorkflowToFile,
   ShellRunner,
 } from './workflow-service.js';
 import type { StorageAdapter } from './types/manual-exports.js';
-import { promptSchemas } from './types/manual-exports.js';
+import { promptSchemas } from './schemas.js';
 import { Prompt, CreatePromptParams, UpdatePromptParams } from './interfaces';
-import { atomicWriteFile } from './adapters.js';
 import type { IPromptRepository, IPromptApplication } from './interfaces.js';
 
 // Global error handler middleware (must be at module level for export)
@@ -73,6 +76,12 @@ export interface HttpServerConfig {
   corsOrigin?: string;
   enableSSE?: boolean;
   ssePath?: string;
+  /** Path of the MCP Streamable HTTP endpoint (default /mcp) */
+  mcpPath?: string;
+  /** Seconds an MCP session without open requests is kept (default 1800) */
+  mcpSessionIdleTimeout?: number;
+  /** Most MCP sessions open at once (default 100) */
+  mcpMaxSessions?: number;
   rateLimit?: {
     windowMs: number;
     max: number;
@@ -85,87 +94,8 @@ export interface ServerServices {
   workflowService: IWorkflowApplication;
   storageAdapters: IPromptRepository[];
   elevenLabsService?: any;
-}
-
-const WORKFLOW_DIR = path.resolve(process.cwd(), 'data', 'workflows');
-function ensureWorkflowDir() {
-  if (!fs.existsSync(WORKFLOW_DIR)) fs.mkdirSync(WORKFLOW_DIR, { recursive: true });
-}
-
-function getWorkflowFileName(id: string, version: number) {
-  return path.join(WORKFLOW_DIR, `${id}-v${version}.json`);
-}
-
-async function saveWorkflowToFile(workflow: any) {
-  ensureWorkflowDir();
-  if (typeof workflow.id !== 'string' || typeof workflow.version !== 'number') {
-    throw new Error('Workflow must have string id and number version');
-  }
-  await atomicWriteFile(
-    getWorkflowFileName(workflow.id, workflow.version),
-    JSON.stringify(workflow, null, 2),
-  );
-}
-
-function loadWorkflowFromFile(id: string, version?: number) {
-  ensureWorkflowDir();
-  if (version !== undefined) {
-    const file = getWorkflowFileName(id, version);
-    if (!fs.existsSync(file)) return null;
-    return JSON.parse(fs.readFileSync(file, 'utf8'));
-  }
-  // If no version specified, get the latest version
-  const files = fs.readdirSync(WORKFLOW_DIR)
-    .filter(f => f.startsWith(`${id}-v`) && f.endsWith('.json'));
-  if (files.length === 0) return null;
-  // Find the highest version
-  const versions = files.map(f => {
-    const match = f.match(/-v(\d+)\.json$/);
-    return match ? parseInt(match[1], 10) : 0;
-  });
-  const maxVersion = Math.max(...versions);
-  const file = getWorkflowFileName(id, maxVersion);
-  return JSON.parse(fs.readFileSync(file, 'utf8'));
-}
-
-function getAllWorkflowVersions(id: string) {
-  ensureWorkflowDir();
-  const files = fs.readdirSync(WORKFLOW_DIR)
-    .filter(f => f.startsWith(`${id}-v`) && f.endsWith('.json'));
-  return files
-    .map(f => {
-      const match = f.match(/-v(\d+)\.json$/);
-      return match ? parseInt(match[1], 10) : null;
-    })
-    .filter(v => v !== null)
-    .sort((a, b) => (a as number) - (b as number));
-}
-
-function getAllWorkflows(latestOnly = true) {
-  ensureWorkflowDir();
-  const files = fs.readdirSync(WORKFLOW_DIR).filter(f => f.endsWith('.json'));
-  const workflowsById: Record<string, any[]> = {};
-  files.forEach(f => {
-    const match = f.match(/^(.*)-v(\d+)\.json$/);
-    if (!match) return;
-    const id = match[1];
-    const version = parseInt(match[2], 10);
-    if (!workflowsById[id]) workflowsById[id] = [];
-    workflowsById[id].push({ version, file: f });
-  });
-  const result: any[] = [];
-  Object.entries(workflowsById).forEach(([id, versions]) => {
-    const sorted = (versions as any[]).sort((a, b) => b.version - a.version);
-    if (latestOnly) {
-      const file = sorted[0].file;
-      result.push(JSON.parse(fs.readFileSync(path.join(WORKFLOW_DIR, file), 'utf8')));
-    } else {
-      sorted.forEach(({ file }) => {
-        result.push(JSON.parse(fs.readFileSync(path.join(WORKFLOW_DIR, file), 'utf8')));
-      });
-    }
-  });
-  return result;
+  /** The template helpers, only the built-in ones when not given */
+  helperRegistry?: HelperRegistry;
 }
 
 const swaggerDefinition = {
@@ -185,6 +115,36 @@ const swaggerDefinition = {
           name: { type: 'string' },
           content: { type: 'string' },
           isTemplate: { type: 'boolean' },
+          engine: { type: 'string', enum: ['handlebars', 'mustache', 'jinja'] },
+          delimiterStyle: { type: 'string', enum: ['double_curly', 'curly', 'dollar', 'percent'] },
+          escaping: { type: 'string', enum: ['none', 'json-string', 'xml', 'markdown-fence', 'html'] },
+          tokenizer: { type: 'string', example: 'o200k_base' },
+          locale: { type: 'string', example: 'en' },
+          translations: {
+            type: 'object',
+            description: 'The prompt in other locales, by BCP-47 locale',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                content: { type: 'string' },
+                description: { type: 'string' },
+                sourceVersion: { type: 'integer', readOnly: true },
+              },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            description: 'A JSON Schema for the response the prompt expects from the model',
+            additionalProperties: true,
+          },
+          tokenBudget: {
+            type: 'object',
+            properties: {
+              maxTokens: { type: 'integer' },
+              strategy: { type: 'string', enum: ['error', 'truncate-head', 'truncate-tail', 'middle-out'] },
+              variables: { type: 'array', items: { type: 'string' } },
+            },
+          },
           description: { type: 'string' },
           variables: { type: 'object', additionalProperties: true },
           tags: { type: 'array', items: { type: 'string' } },
@@ -208,7 +168,16 @@ const swaggerSpec = swaggerJSDoc(swaggerOptions);
 const sanitizePromptData = (data: any): CreatePromptParams => ({
   name: typeof data.name === 'string' ? data.name : '',
   content: typeof data.content === 'string' ? data.content : '',
+  messages: Array.isArray(data.messages) ? data.messages : undefined,
   isTemplate: Boolean(data.isTemplate),
+  engine: typeof data.engine === 'string' ? data.engine : undefined,
+  delimiterStyle: typeof data.delimiterStyle === 'string' ? data.delimiterStyle : undefined,
+  escaping: typeof data.escaping === 'string' ? data.escaping : undefined,
+  tokenizer: typeof data.tokenizer === 'string' ? data.tokenizer : undefined,
+  tokenBudget: (typeof data.tokenBudget === 'object' && data.tokenBudget !== null) ? data.tokenBudget : undefined,
+  locale: typeof data.locale === 'string' ? data.locale : undefined,
+  translations: (typeof data.translations === 'object' && data.translations !== null) ? data.translations : undefined,
+  outputSchema: (typeof data.outputSchema === 'object' && data.outputSchema !== null) ? data.outputSchema : undefined,
   tags: Array.isArray(data.tags) ? data.tags : undefined,
   metadata: (typeof data.metadata === 'object' && data.metadata !== null) ? data.metadata : undefined,
   variables: Array.isArray(data.variables) ? data.variables : undefined,
@@ -227,6 +196,17 @@ const sanitizeUpdatePromptData = (data: any): NoNullMetadata<Omit<UpdatePromptPa
     name: typeof data.name === 'string' ? data.name : undefined,
     content: typeof data.content === 'string' ? data.content : undefined,
     isTemplate: typeof data.isTemplate === 'boolean' ? data.isTemplate : undefined,
+    engine: typeof data.engine === 'string' || data.engine === null ? data.engine : undefined,
+    delimiterStyle:
+      typeof data.delimiterStyle === 'string' || data.delimiterStyle === null
+        ? data.delimiterStyle
+        : undefined,
+    escaping: typeof data.escaping === 'string' || data.escaping === null ? data.escaping : undefined,
+    tokenizer: typeof data.tokenizer === 'string' || data.tokenizer === null ? data.tokenizer : undefined,
+    tokenBudget: typeof data.tokenBudget === 'object' ? data.tokenBudget : undefined,
+    locale: typeof data.locale === 'string' || data.locale === null ? data.locale : undefined,
+    translations: typeof data.translations === 'object' ? data.translations : undefined,
+    outputSchema: typeof data.outputSchema === 'object' ? data.outputSchema : undefined,
     category: typeof data.category === 'string' ? data.category : undefined,
     description: typeof data.description === 'string' ? data.description : undefined
   };
@@ -236,6 +216,9 @@ const sanitizeUpdatePromptData = (data: any): NoNullMetadata<Omit<UpdatePromptPa
   if (!Array.isArray(result.tags)) {
     delete result.tags;
   }
+  if (Array.isArray(data.messages) || data.messages === null) {
+    result.messages = data.messages;
+  }
   if (Array.isArray(data.variables)) {
     if (isStringArray(data.variables) || isTemplateVariableArray(data.variables)) {
       result.variables = data.variables;
@@ -341,14 +324,15 @@ function findCatalogToolById(id: string) {
 }
 
 /**
- *
- * @param server
+ * Starts the REST API and, when an MCP server factory is given, the MCP Streamable HTTP
+ * endpoint at config.mcpPath.
+ * @param mcpServerFactory Builds an MCP server for each Streamable HTTP session
  * @param config
  * @param services
- * @returns
+ * @returns The listening HTTP server
  */
 export async function startHttpServer(
-  server: any | null = null,
+  mcpServerFactory: (() => McpServer) | null = null,
   config: HttpServerConfig,
   services: ServerServices,
 ): Promise<http.Server> {
@@ -356,7 +340,8 @@ export async function startHttpServer(
 
   // Middleware
   app.use(helmet());
-  app.use(cors({ origin: config.corsOrigin || '*' }));
+  // Browser clients must be able to read the session header of the MCP endpoint
+  app.use(cors({ exposedHeaders: ['Mcp-Session-Id'], origin: config.corsOrigin || '*' }));
   app.use(express.json());
   if (config.rateLimit) {
     app.use(rateLimit(config.rateLimit));
@@ -367,6 +352,7 @@ export async function startHttpServer(
   app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
   const { promptService, sequenceService, workflowService } = services;
+  const helperRegistry = services.helperRegistry ?? new HelperRegistry();
 
   // Routes
 
@@ -405,6 +391,63 @@ export async function startHttpServer(
     }
   });
 
+  // Lint prompt handler
+  app.post(
+    '/api/v1/prompts/lint',
+    catchAsync(async (req, res) => {
+      const { delimiterStyle, engine, messages, metadata, variables, ...draft } =
+        promptSchemas.lint.parse(req.body);
+      const result = await promptService.lintPrompt({
+        ...draft,
+        delimiterStyle: delimiterStyle ?? undefined,
+        engine: engine ?? undefined,
+        messages: messages ?? undefined,
+        metadata: metadata ?? undefined,
+        variables: variables ?? undefined,
+      });
+      res.status(200).json(result);
+    }),
+  );
+
+  /**
+   * @openapi
+   * /api/v1/prompts/{id}/validate-output:
+   *   post:
+   *     summary: Check a model response against the prompt's output schema
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               output:
+   *                 description: The model response. Text is parsed as JSON, repairing it where possible.
+   *               version:
+   *                 type: integer
+   *     responses:
+   *       200:
+   *         description: Whether the response is valid, the parsed response, the repairs made and the errors by path
+   *       400:
+   *         description: The prompt has no output schema
+   *       404:
+   *         description: Prompt not found
+   */
+  app.post(
+    '/api/v1/prompts/:id/validate-output',
+    catchAsync(async (req, res) => {
+      const { output, version } = promptSchemas.validateOutput.parse(req.body);
+      const result = await promptService.validateOutput(req.params.id, output, version);
+      res.status(200).json(result);
+    }),
+  );
+
   // Update prompt handler
   app.patch('/api/v1/prompts/:id', async (req: Request, res: Response) => {
     try {
@@ -425,12 +468,21 @@ export async function startHttpServer(
         delete sanitizedUpdateData.variables;
       }
       // Explicitly construct update object for type safety
-      const updateObj: Partial<Prompt> = {};
+      const updateObj: Omit<UpdatePromptParams, 'id' | 'version'> = {};
       if (sanitizedUpdateData.name !== undefined && sanitizedUpdateData.name !== null) updateObj.name = sanitizedUpdateData.name;
       if (sanitizedUpdateData.description !== undefined && sanitizedUpdateData.description !== null) updateObj.description = sanitizedUpdateData.description;
       if (sanitizedUpdateData.category !== undefined && sanitizedUpdateData.category !== null) updateObj.category = sanitizedUpdateData.category;
       if (sanitizedUpdateData.content !== undefined && sanitizedUpdateData.content !== null) updateObj.content = sanitizedUpdateData.content;
+      if (sanitizedUpdateData.messages !== undefined) updateObj.messages = sanitizedUpdateData.messages;
       if (sanitizedUpdateData.isTemplate !== undefined && sanitizedUpdateData.isTemplate !== null) updateObj.isTemplate = sanitizedUpdateData.isTemplate;
+      if (sanitizedUpdateData.engine !== undefined && sanitizedUpdateData.engine !== null) updateObj.engine = sanitizedUpdateData.engine;
+      if (sanitizedUpdateData.delimiterStyle !== undefined && sanitizedUpdateData.delimiterStyle !== null) updateObj.delimiterStyle = sanitizedUpdateData.delimiterStyle;
+      if (sanitizedUpdateData.escaping !== undefined && sanitizedUpdateData.escaping !== null) updateObj.escaping = sanitizedUpdateData.escaping;
+      if (sanitizedUpdateData.tokenizer !== undefined && sanitizedUpdateData.tokenizer !== null) updateObj.tokenizer = sanitizedUpdateData.tokenizer;
+      if (sanitizedUpdateData.tokenBudget !== undefined && sanitizedUpdateData.tokenBudget !== null) updateObj.tokenBudget = sanitizedUpdateData.tokenBudget;
+      if (sanitizedUpdateData.locale !== undefined && sanitizedUpdateData.locale !== null) updateObj.locale = sanitizedUpdateData.locale;
+      if (sanitizedUpdateData.translations !== undefined && sanitizedUpdateData.translations !== null) updateObj.translations = sanitizedUpdateData.translations;
+      if (sanitizedUpdateData.outputSchema !== undefined && sanitizedUpdateData.outputSchema !== null) updateObj.outputSchema = sanitizedUpdateData.outputSchema;
       if (sanitizedUpdateData.metadata !== undefined && sanitizedUpdateData.metadata !== null) updateObj.metadata = sanitizedUpdateData.metadata;
       if (sanitizedUpdateData.tags !== undefined && sanitizedUpdateData.tags !== null) updateObj.tags = sanitizedUpdateData.tags;
       if (sanitizedUpdateData.variables !== undefined && sanitizedUpdateData.variables !== null) updateObj.variables = sanitizedUpdateData.variables;
@@ -480,6 +532,11 @@ export async function startHttpServer(
    *         required: true
    *         schema:
    *           type: string
+   *       - in: query
+   *         name: locale
+   *         description: BCP-47 locale, such as cs-CZ, falling back to cs and the prompt itself
+   *         schema:
+   *           type: string
    *     responses:
    *       200:
    *         description: The prompt
@@ -490,7 +547,8 @@ export async function startHttpServer(
     '/prompts/:id',
     catchAsync(async (req, res) => {
       const { id } = req.params;
-      const prompt = await promptService.getPrompt(id);
+      const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined;
+      const prompt = await promptService.getPrompt(id, undefined, locale);
       if (!prompt) {
         throw new AppError('Prompt not found', 404, HttpErrorCode.NOT_FOUND);
       }
@@ -593,6 +651,10 @@ export async function startHttpServer(
    *      required: true
    *      schema:
    *        type: integer
+   *    - in: query
+   *      name: locale
+   *      schema:
+   *        type: string
    *   responses:
    *    200:
    *     description: The prompt
@@ -604,7 +666,8 @@ export async function startHttpServer(
     catchAsync(async (req, res) => {
       const { id } = req.params;
       const version = parseInt(req.params.version, 10);
-      const prompt = await promptService.getPrompt(id, version);
+      const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined;
+      const prompt = await promptService.getPrompt(id, version, locale);
       if (!prompt) {
         throw new AppError('Prompt not found', 404, HttpErrorCode.NOT_FOUND);
       }
@@ -656,12 +719,21 @@ export async function startHttpServer(
         delete sanitizedUpdateData.variables;
       }
       // Explicitly construct update object for type safety
-      const updateObj: Partial<Prompt> = {};
+      const updateObj: Omit<UpdatePromptParams, 'id' | 'version'> = {};
       if (sanitizedUpdateData.name !== undefined && sanitizedUpdateData.name !== null) updateObj.name = sanitizedUpdateData.name;
       if (sanitizedUpdateData.description !== undefined && sanitizedUpdateData.description !== null) updateObj.description = sanitizedUpdateData.description;
       if (sanitizedUpdateData.category !== undefined && sanitizedUpdateData.category !== null) updateObj.category = sanitizedUpdateData.category;
       if (sanitizedUpdateData.content !== undefined && sanitizedUpdateData.content !== null) updateObj.content = sanitizedUpdateData.content;
+      if (sanitizedUpdateData.messages !== undefined) updateObj.messages = sanitizedUpdateData.messages;
       if (sanitizedUpdateData.isTemplate !== undefined && sanitizedUpdateData.isTemplate !== null) updateObj.isTemplate = sanitizedUpdateData.isTemplate;
+      if (sanitizedUpdateData.engine !== undefined && sanitizedUpdateData.engine !== null) updateObj.engine = sanitizedUpdateData.engine;
+      if (sanitizedUpdateData.delimiterStyle !== undefined && sanitizedUpdateData.delimiterStyle !== null) updateObj.delimiterStyle = sanitizedUpdateData.delimiterStyle;
+      if (sanitizedUpdateData.escaping !== undefined && sanitizedUpdateData.escaping !== null) updateObj.escaping = sanitizedUpdateData.escaping;
+      if (sanitizedUpdateData.tokenizer !== undefined && sanitizedUpdateData.tokenizer !== null) updateObj.tokenizer = sanitizedUpdateData.tokenizer;
+      if (sanitizedUpdateData.tokenBudget !== undefined && sanitizedUpdateData.tokenBudget !== null) updateObj.tokenBudget = sanitizedUpdateData.tokenBudget;
+      if (sanitizedUpdateData.locale !== undefined && sanitizedUpdateData.locale !== null) updateObj.locale = sanitizedUpdateData.locale;
+      if (sanitizedUpdateData.translations !== undefined && sanitizedUpdateData.translations !== null) updateObj.translations = sanitizedUpdateData.translations;
+      if (sanitizedUpdateData.outputSchema !== undefined && sanitizedUpdateData.outputSchema !== null) updateObj.outputSchema = sanitizedUpdateData.outputSchema;
       if (sanitizedUpdateData.metadata !== undefined && sanitizedUpdateData.metadata !== null) updateObj.metadata = sanitizedUpdateData.metadata;
       if (sanitizedUpdateData.tags !== undefined && sanitizedUpdateData.tags !== null) updateObj.tags = sanitizedUpdateData.tags;
       if (sanitizedUpdateData.variables !== undefined && sanitizedUpdateData.variables !== null) updateObj.variables = sanitizedUpdateData.variables;
@@ -722,6 +794,8 @@ export async function startHttpServer(
    *                 type: string
    *               variables:
    *                 type: object
+   *               locale:
+   *                 type: string
    *     responses:
    *       200:
    *         description: The result of applying the template
@@ -729,12 +803,94 @@ export async function startHttpServer(
   app.post(
     '/prompts/apply-template',
     catchAsync(async (req, res) => {
-      const { id, variables } = promptSchemas.applyTemplate.parse(req.body);
-      const result = await promptService.applyTemplate(id, variables);
+      const { id, locale, variables } = promptSchemas.applyTemplate.parse(req.body);
+      const result = await promptService.applyTemplate(id, variables, undefined, { locale });
       res.status(200).json(result);
     }),
   );
 
+  // --- Template helpers ---
+
+  /**
+   * @openapi
+   * /api/v1/helpers:
+   *   get:
+   *     summary: List the helpers templates can call
+   *     responses:
+   *       200:
+   *         description: The built-in, module and declarative helpers
+   */
+  app.get(
+    '/api/v1/helpers',
+    catchAsync(async (_req, res) => {
+      res.status(200).json(helperRegistry.list());
+    }),
+  );
+
+  /**
+   * @openapi
+   * /api/v1/helpers/{name}:
+   *   put:
+   *     summary: Add or replace a declarative helper
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 enum: [replace, lookup, format]
+   *               description:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: The helper
+   *       400:
+   *         description: Invalid definition, or the name is taken by another helper
+   */
+  app.put(
+    '/api/v1/helpers/:name',
+    catchAsync(async (req, res) => {
+      const helper = await helperRegistry.saveHelper({ ...req.body, name: req.params.name });
+      await promptService.invalidateRenders();
+      res.status(200).json(helper);
+    }),
+  );
+
+  /**
+   * @openapi
+   * /api/v1/helpers/{name}:
+   *   delete:
+   *     summary: Delete a declarative helper
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: Helper deleted
+   *       404:
+   *         description: Declarative helper not found
+   */
+  app.delete(
+    '/api/v1/helpers/:name',
+    catchAsync(async (req, res) => {
+      await helperRegistry.deleteHelper(req.params.name);
+      await promptService.invalidateRenders();
+      res.status(204).send();
+    }),
+  );
+
   // --- Sequences ---
 
   app.post(
@@ -774,7 +930,7 @@ export async function startHttpServer(
       // const validatedWorkflow = workflowService.validateWorkflow(req.body);
       // const workflow = await workflowService.saveWorkflow(validatedWorkflow);
       const workflow = req.body;
-      saveWorkflowToFile(workflow);
+      await saveWorkflowToFile(workflow);
       res.status(201).json(workflow);
     }),
   );
@@ -1002,12 +1158,21 @@ export async function startHttpServer(
             delete sanitizedUpdateData.variables;
           }
           // Explicitly construct update object for type safety
-          const updateObj: Partial<Prompt> = {};
+          const updateObj: Omit<UpdatePromptParams, 'id' | 'version'> = {};
           if (sanitizedUpdateData.name !== undefined && sanitizedUpdateData.name !== null) updateObj.name = sanitizedUpdateData.name;
           if (sanitizedUpdateData.description !== undefined && sanitizedUpdateData.description !== null) updateObj.description = sanitizedUpdateData.description;
           if (sanitizedUpdateData.category !== undefined && sanitizedUpdateData.category !== null) updateObj.category = sanitizedUpdateData.category;
           if (sanitizedUpdateData.content !== undefined && sanitizedUpdateData.content !== null) updateObj.content = sanitizedUpdateData.content;
+          if (sanitizedUpdateData.messages !== undefined) updateObj.messages = sanitizedUpdateData.messages;
           if (sanitizedUpdateData.isTemplate !== undefined && sanitizedUpdateData.isTemplate !== null) updateObj.isTemplate = sanitizedUpdateData.isTemplate;
+          if (sanitizedUpdateData.engine !== undefined && sanitizedUpdateData.engine !== null) updateObj.engine = sanitizedUpdateData.engine;
+          if (sanitizedUpdateData.delimiterStyle !== undefined && sanitizedUpdateData.delimiterStyle !== null) updateObj.delimiterStyle = sanitizedUpdateData.delimiterStyle;
+          if (sanitizedUpdateData.escaping !== undefined && sanitizedUpdateData.escaping !== null) updateObj.escaping = sanitizedUpdateData.escaping;
+          if (sanitizedUpdateData.tokenizer !== undefined && sanitizedUpdateData.tokenizer !== null) updateObj.tokenizer = sanitizedUpdateData.tokenizer;
+          if (sanitizedUpdateData.tokenBudget !== undefined && sanitizedUpdateData.tokenBudget !== null) updateObj.tokenBudget = sanitizedUpdateData.tokenBudget;
+          if (sanitizedUpdateData.locale !== undefined && sanitizedUpdateData.locale !== null) updateObj.locale = sanitizedUpdateData.locale;
+          if (sanitizedUpdateData.translations !== undefined && sanitizedUpdateData.translations !== null) updateObj.translations = sanitizedUpdateData.translations;
+          if (sanitizedUpdateData.outputSchema !== undefined && sanitizedUpdateData.outputSchema !== null) updateObj.outputSchema = sanitizedUpdateData.outputSchema;
           if (sanitizedUpdateData.metadata !== undefined && sanitizedUpdateData.metadata !== null) updateObj.metadata = sanitizedUpdateData.metadata;
           if (sanitizedUpdateData.tags !== undefined && sanitizedUpdateData.tags !== null) updateObj.tags = sanitizedUpdateData.tags;
           if (sanitizedUpdateData.variables !== undefined && sanitizedUpdateData.variables !== null) updateObj.variables = sanitizedUpdateData.variables;
@@ -1093,6 +1258,20 @@ export async function startHttpServer(
     }
   });
 
+  // --- MCP Streamable HTTP ---
+  const mcpHandler = mcpServerFactory
+    ? createStreamableHttpHandler(mcpServerFactory, {
+        idleTimeoutMs:
+          config.mcpSessionIdleTimeout !== undefined
+            ? config.mcpSessionIdleTimeout * 1000
+            : undefined,
+        maxSessions: config.mcpMaxSessions,
+      })
+    : null;
+  if (mcpHandler) {
+    app.all(config.mcpPath || '/mcp', catchAsync(mcpHandler));
+  }
+
   // Add this after all other routes, before the error handler
   app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
@@ -1109,14 +1288,11 @@ export async function startHttpServer(
 
   app.use(errorHandler);
 
-  // Ensure the function always returns a Promise<http.Server>
-  // If a server instance is provided, return it; otherwise, start a new server
-  if (server) {
-    return Promise.resolve(server);
-  }
-
   return new Promise((resolve, reject) => {
     const srv = http.createServer(app);
+    srv.on('close', () => {
+      void mcpHandler?.close();
+    });
 
     srv.on('error', (error: NodeJS.ErrnoException) => {
       console.error('Server error:', error);
@@ -1129,7 +1305,7 @@ export async function startHttpServer(
     srv.on('listening', () => {
       const addr = srv.address();
       const boundAddress = typeof addr === 'string' ? addr : `${addr?.address}:${addr?.port}`;
-      console.log(`Server is now listening on ${boundAddress}`);
+      console.error(`Server is now listening on ${boundAddress}`);
       resolve(srv);
     });
 
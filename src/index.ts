@@ -1,40 +1,49 @@
 #!/usr/bin/env node
-console.log('Starting MCP Prompts Server...');
+// stdout is reserved for the MCP stdio transport, so startup output goes to stderr
+console.error('Starting MCP Prompts Server...');
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 // import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse';
-// import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp';
-import { pino } from 'pino';
+import { destination, pino } from 'pino';
 import { z } from 'zod';
 import http from 'http';
 
 import { adapterFactory } from './adapters.js';
+import { createCache } from './cache.js';
 import { loadConfig } from './config.js';
 import { ElevenLabsService } from './elevenlabs-service.js';
+import { HelperRegistry } from './helper-registry.js';
 import { startHttpServer } from './http-server.js';
+import { createMcpServer, startStdioTransport } from './mcp-server.js';
 import { PromptService } from './prompt-service.js';
 import { SequenceApplication, ISequenceRepository } from './sequence-service.js';
 import { WorkflowApplication } from './workflow-service.js';
-import { defaultTemplatingEngine } from './utils.js';
+import { HandlebarsTemplatingEngine } from './template-engines.js';
+import { closeRedisClient } from './utils.js';
 
 /**
  *
  */
 async function main() {
   const env = loadConfig();
-  const logger = pino({
-    level: env.LOG_LEVEL || 'info',
-    ...(process.env.NODE_ENV !== 'production' && {
-      transport: {
-        options: {
-          colorize: true,
+  // With the stdio transport enabled, stdout carries JSON-RPC messages and logs must use stderr
+  const logDestination = env.MCP_SERVER ? 2 : 1;
+  const logger = pino(
+    {
+      level: env.LOG_LEVEL || 'info',
+      ...(process.env.NODE_ENV !== 'production' && {
+        transport: {
+          options: {
+            colorize: true,
+            destination: logDestination,
+          },
+          target: 'pino-pretty',
         },
-        target: 'pino-pretty',
-      },
-    }),
-  });
+      }),
+    },
+    ...(process.env.NODE_ENV === 'production' ? [destination(logDestination)] : []),
+  );
 
-  const allowedStorageTypes = ['file', 'postgres', 'memory'] as const;
+  const allowedStorageTypes = ['file', 'postgres', 'memory', 'sqlite'] as const;
   type AllowedStorageType = typeof allowedStorageTypes[number];
   const storageType: AllowedStorageType = allowedStorageTypes.includes(env.STORAGE_TYPE as AllowedStorageType)
     ? (env.STORAGE_TYPE as AllowedStorageType)
@@ -43,6 +52,7 @@ async function main() {
     ...env,
     storage: {
       database: env.POSTGRES_DATABASE,
+      filename: env.SQLITE_PATH,
       host: env.POSTGRES_HOST,
       maxConnections: env.POSTGRES_MAX_CONNECTIONS,
       password: env.POSTGRES_PASSWORD,
@@ -53,6 +63,7 @@ async function main() {
       user: env.POSTGRES_USER,
     } as {
       database: string | undefined;
+      filename: string;
       host: string | undefined;
       maxConnections: number | undefined;
       password: string | undefined;
@@ -67,7 +78,18 @@ async function main() {
   const storageAdapter = adapterFactory(config, logger);
   await storageAdapter.connect();
 
-  const promptService = new PromptService(storageAdapter, defaultTemplatingEngine);
+  const helperRegistry = new HelperRegistry(storageAdapter, {
+    directory: env.HELPERS_DIR,
+    timeout: env.HELPER_TIMEOUT_MS,
+  });
+  await helperRegistry.load();
+
+  const cache = await createCache(env, logger);
+  const promptService = new PromptService(
+    storageAdapter,
+    new HandlebarsTemplatingEngine(helperRegistry),
+    cache,
+  );
   const sequenceService = new SequenceApplication(storageAdapter as ISequenceRepository);
   const workflowService = new WorkflowApplication(storageAdapter, promptService);
   const elevenLabsService = new ElevenLabsService({
@@ -77,24 +99,26 @@ async function main() {
     voiceId: env.ELEVENLABS_VOICE_ID,
   });
 
-  const mcpServer = new McpServer({
-    name: 'mcp-prompts',
-    version: '1.3.0',
-  });
+  const mcpServer = createMcpServer({ promptService, sequenceService, workflowService });
 
   let httpServer: http.Server;
   try {
     httpServer = await startHttpServer(
-      mcpServer,
+      // Each Streamable HTTP session gets its own server over the same services
+      () => createMcpServer({ promptService, sequenceService, workflowService }),
       {
         corsOrigin: env.CORS_ORIGIN,
         enableSSE: env.ENABLE_SSE,
         host: env.HOST,
+        mcpMaxSessions: env.MCP_MAX_SESSIONS,
+        mcpPath: env.MCP_HTTP_PATH,
+        mcpSessionIdleTimeout: env.MCP_SESSION_IDLE_TIMEOUT,
         port: env.PORT,
         ssePath: env.SSE_PATH,
       },
       {
         elevenLabsService,
+        helperRegistry,
         promptService,
         sequenceService,
         storageAdapters: [storageAdapter],
@@ -104,6 +128,11 @@ async function main() {
 
     logger.info(`MCP Prompts server started on ${env.HOST}:${env.PORT}`);
 
+    if (env.MCP_SERVER) {
+      await startStdioTransport(mcpServer);
+      logger.info('MCP stdio transport connected');
+    }
+
     // Keep the event loop alive
     const keepAlive = setInterval(() => {}, 1000);
 
@@ -122,6 +151,8 @@ async function main() {
         }
       });
       await storageAdapter.disconnect();
+      await cache.close();
+      await closeRedisClient();
       logger.info('Server shut down gracefully.');
       process.exit(0);
     }
@@ -32,6 +32,42 @@ export interface TemplateVariable {
   options?: string[];
 }
 
+/**
+ * Non-text content attached to a prompt message
+ */
+export type PromptContentPart =
+  /** A base64 image, as given to createPrompt and updatePrompt */
+  | { type: 'image'; data: string; mimeType: string }
+  /** An image kept in the prompt storage, by the SHA-256 of its data in hex */
+  | { type: 'image'; asset: string; mimeType: string }
+  /** An embedded resource: prompt://{id}[/v{version}] or file://{path in PROMPT_RESOURCES_DIR} */
+  | { type: 'resource'; uri: string };
+
+/**
+ * One message of a chat prompt
+ */
+export interface PromptMessage {
+  /** Who speaks the message */
+  role: 'system' | 'user' | 'assistant';
+
+  /** The message content, a template when the prompt is one */
+  content: string;
+
+  /** Images and resources sent after the content */
+  parts?: PromptContentPart[];
+}
+
+/**
+ * Content of a message returned by MCP prompts/get
+ */
+export type McpPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | {
+      type: 'resource';
+      resource: { uri: string; mimeType: string } & ({ text: string } | { blob: string });
+    };
+
 /**
  * Prompt interface
  * Represents a prompt in the system, either a template or a concrete prompt
@@ -43,12 +79,55 @@ export interface Prompt {
   /** Human-readable name of the prompt */
   name: string;
 
-  /** The actual prompt content */
+  /** The actual prompt content. For chat prompts, a transcript derived from messages */
   content: string;
 
+  /** For chat prompts, the ordered messages that make up the prompt */
+  messages?: PromptMessage[];
+
   /** Whether this is a template prompt */
   isTemplate: boolean;
 
+  /**
+   * The template engine the prompt is written for: handlebars, mustache, jinja or a
+   * registered plugin. Falls back to metadata.engine, then to the default engine.
+   */
+  engine?: string;
+
+  /**
+   * How variables are delimited in the template: {{name}} (double_curly, the default),
+   * {name} (curly), ${name} (dollar) or %{name} (percent). With the other styles, literal
+   * {{ }} in the template is kept as text.
+   */
+  delimiterStyle?: DelimiterStyle;
+
+  /**
+   * How variable values are escaped for the text around them: none (the default), json-string,
+   * xml, markdown-fence or html. Unescaped output such as {{{name}}} is never escaped.
+   */
+  escaping?: EscapingMode;
+
+  /**
+   * The tokenizer the rendered prompt is counted with: o200k_base (the default), cl100k_base
+   * or a registered one
+   */
+  tokenizer?: string;
+
+  /** The most tokens the rendered prompt may take */
+  tokenBudget?: TokenBudget;
+
+  /** The BCP-47 locale of content and messages, such as en */
+  locale?: string;
+
+  /** The prompt in other locales, by BCP-47 locale */
+  translations?: Record<string, PromptTranslation>;
+
+  /** Which locales the prompt covers, added by listPrompts and never stored */
+  localization?: LocalizationStatus;
+
+  /** A JSON Schema for the response the prompt expects from the model */
+  outputSchema?: Record<string, unknown>;
+
   /** Date when the prompt was created (ISO string) */
   createdAt: string;
 
@@ -129,18 +208,117 @@ export interface PgaiFormatOptions {
   collection?: string;
 }
 
+export type DelimiterStyle = 'curly' | 'double_curly' | 'dollar' | 'percent';
+
+export type EscapingMode = 'none' | 'json-string' | 'xml' | 'markdown-fence' | 'html';
+
+export type TokenOverflowStrategy = 'error' | 'truncate-head' | 'truncate-tail' | 'middle-out';
+
+/**
+ * A limit on the tokens of a rendered prompt
+ */
+export interface TokenBudget {
+  maxTokens: number;
+  /**
+   * What happens when the prompt renders over the budget: an error (the default), or the
+   * longest string variables are shortened by dropping their start (truncate-head), their
+   * end (truncate-tail) or their middle (middle-out) until it fits
+   */
+  strategy?: TokenOverflowStrategy;
+  /** The variables that may be shortened, by default those the prompt's templates use */
+  variables?: string[];
+}
+
+/**
+ * Splits text into the tokens a model reads
+ */
+export interface ITokenizer {
+  readonly name: string;
+  encode(text: string): number[];
+  decode(tokens: number[]): string;
+}
+
+/**
+ * A prompt's content in another locale. It shares the prompt's variables and settings.
+ */
+export interface PromptTranslation {
+  /** For chat prompts, a transcript derived from messages */
+  content: string;
+  messages?: PromptMessage[];
+  description?: string;
+  /** The version of the prompt it was translated from */
+  sourceVersion: number;
+  /** A hash of the content it was translated from, which tells whether it is stale */
+  sourceHash: string;
+}
+
+/** A translation as given to createPrompt and updatePrompt, which track its source */
+export type PromptTranslationInput = Partial<Pick<PromptTranslation, 'content' | 'messages'>> &
+  Pick<PromptTranslation, 'description'>;
+
+/**
+ * The locales a prompt covers
+ */
+export interface LocalizationStatus {
+  /** The prompt's own locale and its translations */
+  locales: string[];
+  /** Translations made before the prompt's content last changed */
+  stale: Array<{ locale: string; sourceVersion: number }>;
+}
+
+/**
+ * Something wrong with a model response, at the path of the offending value
+ */
+export interface OutputSchemaError {
+  /** The JSON Schema keyword that failed, such as required, or json when nothing parsed */
+  keyword: string;
+  message: string;
+  /** Object keys and array indexes leading to the value, such as ['items', 0, 'name'] */
+  path: Array<string | number>;
+}
+
+/**
+ * A model response checked against a prompt's output schema
+ */
+export interface OutputValidationResult {
+  valid: boolean;
+  /** The parsed response, unless it could not be parsed even after repairs */
+  output?: unknown;
+  /** What was repaired to parse the response, such as 'Removed trailing commas' */
+  repairs: string[];
+  errors: OutputSchemaError[];
+}
+
+/**
+ * The tokens of a rendered prompt
+ */
+export interface TokenUsage {
+  count: number;
+  tokenizer: string;
+  /** Whether the count is an estimate, made without the tokenizer's rank file */
+  approximate?: boolean;
+  /** The tokens removed from each variable to fit the prompt's budget */
+  truncated?: Record<string, number>;
+}
+
 /**
  * Template format options
  */
 export interface TemplateFormatOptions {
-  /** Variable delimiter style */
-  delimiterStyle?: 'curly' | 'double_curly' | 'dollar' | 'percent';
+  /** Variable delimiter style, overriding the prompt's own */
+  delimiterStyle?: DelimiterStyle;
+
+  /** How variable values are escaped, overriding the prompt's own */
+  escaping?: EscapingMode;
 
   /** Provide default values for variables */
   defaultValues?: Record<string, string>;
 
   /** Programming language for code variables */
   codeLanguage?: string;
+
+  /** The BCP-47 locale to render, falling back from cs-CZ to cs to the prompt's own content */
+  locale?: string;
 }
 
 /**
@@ -229,12 +407,16 @@ export interface IPromptRepository {
   restore?(backupId: string): Promise<void>;
   listBackups?(): Promise<string[]>;
   getSequence(id: string): Promise<PromptSequence | null>;
+  listSequences(): Promise<PromptSequence[]>;
   saveSequence(sequence: PromptSequence): Promise<PromptSequence>;
   deleteSequence(id: string): Promise<void>;
   healthCheck?(): Promise<boolean>;
   saveWorkflowState(state: WorkflowExecutionState): Promise<void>;
   getWorkflowState(executionId: string): Promise<WorkflowExecutionState | null>;
   listWorkflowStates(workflowId: string): Promise<WorkflowExecutionState[]>;
+  /** Keep binary data of prompts, such as images, apart from the prompt records */
+  saveAsset(id: string, data: Buffer): Promise<void>;
+  getAsset(id: string): Promise<Buffer | null>;
 }
 
 export interface WorkflowExecutionState {
@@ -257,35 +439,134 @@ export interface WorkflowExecutionState {
 
 export type TemplateVariables = Record<string, string>;
 
+/**
+ * A partial included by a render, with the version it resolved to
+ */
+export interface PartialDependency {
+  /** The reference as written in the template: header, header@3 or header@stable */
+  reference: string;
+  id: string;
+  version: number;
+}
+
 export interface ApplyTemplateResult {
   content: string;
+  /** The rendered messages, for chat prompts */
+  messages?: PromptMessage[];
   originalPrompt: Prompt;
-  appliedVariables: TemplateVariables;
+  /** The variables used for rendering, with defaults filled in and values coerced */
+  appliedVariables: Record<string, unknown>;
+  /** Every partial the render included, in the order they were resolved */
+  dependencies: PartialDependency[];
   missingVariables?: string[];
+  /** Tokens in the rendered content, unless the prompt's tokenizer is not available */
+  tokens?: TokenUsage;
+  /** The locale rendered, when a locale was requested */
+  locale?: string;
+}
+
+/**
+ * A problem found by linting a template
+ */
+export interface TemplateLintIssue {
+  severity: 'error' | 'warning';
+  code:
+    | 'syntax-error'
+    | 'undeclared-variable'
+    | 'unused-variable'
+    | 'unknown-helper'
+    | 'missing-partial'
+    | 'cyclic-partial'
+    | 'variables-not-allowed'
+    | 'unknown-engine';
+  message: string;
+  /** The variable, helper or partial the issue is about */
+  name?: string;
 }
 
+export interface TemplateLintResult {
+  /** False when there is at least one error; warnings alone keep a template valid */
+  valid: boolean;
+  issues: TemplateLintIssue[];
+  /** Top-level variables the template reads */
+  variables: string[];
+  /** Full variable paths, such as user.name */
+  paths: string[];
+  helpers: string[];
+  partials: string[];
+}
+
+/**
+ * The parts of a prompt that linting looks at
+ */
+export type TemplateLintInput = Partial<
+  Pick<
+    Prompt,
+    | 'id'
+    | 'content'
+    | 'messages'
+    | 'isTemplate'
+    | 'variables'
+    | 'engine'
+    | 'metadata'
+    | 'delimiterStyle'
+  >
+>;
+
 export interface IPromptApplication {
-  getPrompt(id: string, version?: number): Promise<Prompt | null>;
-  addPrompt(data: Partial<Prompt>): Promise<Prompt>;
-  updatePrompt(id: string, version: number, data: Partial<Prompt>): Promise<Prompt>;
+  getPrompt(id: string, version?: number, locale?: string): Promise<Prompt | null>;
+  addPrompt(data: CreatePromptParams): Promise<Prompt>;
+  updatePrompt(
+    id: string,
+    version: number,
+    data: Omit<UpdatePromptParams, 'id' | 'version'>,
+  ): Promise<Prompt>;
   listPrompts(options?: ListPromptsOptions, allVersions?: boolean): Promise<Prompt[]>;
   deletePrompt(id: string, version?: number): Promise<boolean>;
   listPromptVersions(id: string): Promise<number[]>;
   applyTemplate(
     id: string,
-    variables: TemplateVariables,
+    variables: Record<string, unknown>,
     version?: number,
+    options?: TemplateFormatOptions,
   ): Promise<ApplyTemplateResult>;
+  lintPrompt(prompt: TemplateLintInput): Promise<TemplateLintResult>;
+  validateOutput(id: string, output: unknown, version?: number): Promise<OutputValidationResult>;
+  /** Drop the cached renders of every prompt */
+  invalidateRenders(): Promise<void>;
 }
 
-export interface CreatePromptParams {
+/**
+ * Emitted by PromptService after a stored prompt changes
+ */
+export interface PromptChangeEvent {
+  type: 'created' | 'updated' | 'deleted';
+  id: string;
+  /** The affected version, or undefined when all versions were deleted */
+  version?: number;
+}
+
+export type PromptChangeListener = (event: PromptChangeEvent) => void;
+
+/** A new prompt, with either content or chat messages */
+export type CreatePromptParams = CreatePromptFields &
+  ({ content: string; messages?: PromptMessage[] } | { content?: string; messages: PromptMessage[] });
+
+interface CreatePromptFields {
   id?: string;
   name: string;
   description?: string;
-  content: string;
   tags?: string[];
   isTemplate: boolean;
-  variables?: string[] | TemplateVariable[];
+  engine?: string;
+  delimiterStyle?: DelimiterStyle;
+  escaping?: EscapingMode;
+  tokenizer?: string;
+  tokenBudget?: TokenBudget;
+  locale?: string;
+  translations?: Record<string, PromptTranslationInput>;
+  outputSchema?: Record<string, unknown>;
+  variables?: Array<string | TemplateVariable>;
   metadata?: Record<string, unknown>;
   category?: string;
 }
@@ -295,9 +576,26 @@ export interface UpdatePromptParams {
   name?: string;
   description?: string;
   content?: string;
+  /** Pass null to turn a chat prompt back into a single-content prompt */
+  messages?: PromptMessage[] | null;
   tags?: string[] | null;
   isTemplate?: boolean;
-  variables?: string[] | TemplateVariable[] | null;
+  /** Pass null to use metadata.engine or the default engine */
+  engine?: string | null;
+  /** Pass null to go back to {{ }} */
+  delimiterStyle?: DelimiterStyle | null;
+  /** Pass null to stop escaping */
+  escaping?: EscapingMode | null;
+  /** Pass null to use the default tokenizer */
+  tokenizer?: string | null;
+  /** Pass null to remove the budget */
+  tokenBudget?: TokenBudget | null;
+  locale?: string | null;
+  /** Replaces every translation; pass null to remove them */
+  translations?: Record<string, PromptTranslationInput> | null;
+  /** Pass null to remove the schema */
+  outputSchema?: Record<string, unknown> | null;
+  variables?: Array<string | TemplateVariable> | null;
   metadata?: Record<string, unknown> | null;
   category?: string;
 }
@@ -532,8 +830,50 @@ export interface AudioGenerationResult {
   };
 }
 
-export interface ITemplatingEngine {
-  render(template: string, variables: Record<string, string>): string;
+/**
+ * What a template reads and calls
+ */
+export interface TemplateAnalysis {
+  /** Top-level variables, such as user for {{user.name}} */
+  variables: string[];
+  /** Full variable paths, such as user.name */
+  paths: string[];
+  /** Known helpers (or filters) the template calls */
+  helpers: string[];
+  /** Helpers the template calls that are not registered */
+  unknownHelpers: string[];
+  /** Partial and layout references as written, such as header or header@3 */
+  partials: string[];
+}
+
+/**
+ * A template language. PromptService selects one per prompt, caches compiled templates per
+ * prompt version and resolves the partials and layouts a template references, so an engine
+ * never loads prompts itself.
+ */
+export interface ITemplatingEngine<TCompiled = unknown> {
+  /** The name prompts select the engine by, in their engine field or metadata.engine */
+  readonly name: string;
+  /**
+   * Compile a template. The result must not depend on other templates, so it can be cached.
+   * @throws When the template is not valid syntax
+   */
+  compile(template: string, options?: TemplateFormatOptions): TCompiled;
+  /**
+   * Render a compiled template.
+   * @param partials Compiled partials and layouts by the reference written in the template,
+   * null for references that could not be resolved
+   */
+  render(
+    compiled: TCompiled,
+    variables: Record<string, unknown>,
+    partials: Record<string, TCompiled | null>,
+  ): string;
+  /**
+   * Find the variables, helpers, partials and layouts a template uses.
+   * @throws When the template is not valid syntax
+   */
+  analyze(template: string, options?: TemplateFormatOptions): TemplateAnalysis;
 }
 
 /**
@@ -541,6 +881,68 @@ export interface ITemplatingEngine {
  */
 export interface ISequenceRepository {
   getSequence(id: string): Promise<PromptSequence | null>;
+  listSequences(): Promise<PromptSequence[]>;
   saveSequence(sequence: PromptSequence): Promise<PromptSequence>;
   deleteSequence(id: string): Promise<void>;
 }
+
+interface HelperDefinitionBase {
+  /** The name templates call the helper by */
+  name: string;
+  description?: string;
+}
+
+/**
+ * A template helper defined by data instead of code:
+ * - replace: replaces matches of a regular expression, as String.replace does
+ * - lookup: maps values through a table, falling back to the fallback or the value itself
+ * - format: fills {0}, {1} with its arguments and {key} with its key=value options
+ */
+export type HelperDefinition =
+  | (HelperDefinitionBase & {
+      type: 'replace';
+      pattern: string;
+      flags?: string;
+      replacement: string;
+    })
+  | (HelperDefinitionBase & { type: 'lookup'; table: Record<string, string>; fallback?: string })
+  | (HelperDefinitionBase & { type: 'format'; format: string });
+
+/**
+ * A helper templates can call, and where it comes from
+ */
+export interface HelperInfo {
+  name: string;
+  source: 'built-in' | 'module' | 'declarative';
+  description?: string;
+  /** The file a module helper was loaded from */
+  module?: string;
+  /** The definition of a declarative helper */
+  definition?: HelperDefinition;
+}
+
+/**
+ * Repository port for declarative helper persistence
+ */
+export interface IHelperRepository {
+  listHelpers(): Promise<HelperDefinition[]>;
+  saveHelper(helper: HelperDefinition): Promise<HelperDefinition>;
+  /** @returns Whether the helper existed */
+  deleteHelper(name: string): Promise<boolean>;
+}
+
+/**
+ * A cache of prompts and rendered templates, shared by the server instances when it is
+ * backed by Redis. Values are copied in and out, as JSON would be.
+ */
+export interface ICache {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  /** Add members to the set at a key in one step, so concurrent adds all stay */
+  addToSet(key: string, members: string[]): Promise<void>;
+  /** The members of the set at a key */
+  getSet(key: string): Promise<string[]>;
+  /** Delete the entries whose keys start with one of the prefixes, in every instance */
+  invalidate(prefixes: string[]): Promise<void>;
+  close(): Promise<void>;
+}
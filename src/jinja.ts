@@ -0,0 +1,1152 @@
+import type { TemplateAnalysis } from './interfaces.js';
+
+/**
+ * A Jinja-style template language, for prompts authored by teams that use Jinja in Python.
+ * It covers what prompts use: {{ expressions }} with filters and tests, {% if %}, {% for %},
+ * {% set %}, {% include %}, template inheritance with {% extends %} and {% block %},
+ * {% raw %}, {# comments #} and the - whitespace control markers.
+ *
+ * Output is only escaped when the render is given an escaper, and the safe filter opts an
+ * expression out, as with autoescape in Jinja. Undefined values render as an empty string.
+ */
+
+type Expression =
+  | { type: 'literal'; value: unknown }
+  | { type: 'name'; name: string }
+  | { type: 'list'; items: Expression[] }
+  | { type: 'dict'; entries: Array<[Expression, Expression]> }
+  | { type: 'member'; object: Expression; property: Expression }
+  | { type: 'call'; callee: Expression; args: Expression[] }
+  | { type: 'filter'; value: Expression; name: string; args: Expression[]; kwargs: KeywordArgs }
+  | { type: 'test'; value: Expression; name: string; args: Expression[]; negated: boolean }
+  | { type: 'unary'; operator: string; operand: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'conditional'; test: Expression; consequent: Expression; alternate?: Expression };
+
+type KeywordArgs = Record<string, Expression>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | {
+      type: 'if';
+      branches: Array<{ test: Expression; body: TemplateNode[] }>;
+      otherwise: TemplateNode[];
+    }
+  | {
+      type: 'for';
+      targets: string[];
+      iterable: Expression;
+      body: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | { type: 'set'; name: string; value: Expression }
+  | { type: 'include'; reference: string }
+  | { type: 'block'; name: string; body: TemplateNode[] };
+
+/**
+ * A parsed template
+ */
+export interface JinjaTemplate {
+  body: TemplateNode[];
+  /** The layout the template extends, as written in {% extends "layout" %} */
+  extends?: string;
+  /** Every block the template defines, by name */
+  blocks: Map<string, TemplateNode[]>;
+}
+
+/**
+ * Templates a render can include or extend, by the reference written in the template.
+ * Null marks a reference that could not be resolved.
+ */
+export type JinjaPartials = Record<string, JinjaTemplate | null>;
+
+interface Token {
+  type: 'text' | 'output' | 'tag';
+  value: string;
+  line: number;
+}
+
+const CLOSING_DELIMITERS: Record<string, string> = { '{#': '#}', '{%': '%}', '{{': '}}' };
+
+const syntaxError = (message: string, line: number) =>
+  new Error(`Jinja syntax error on line ${line}: ${message}`);
+
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  const opening = /{{|{%|{#/g;
+  let position = 0;
+  let line = 1;
+  let trimNext = false;
+
+  const pushText = (text: string, trimEnd: boolean) => {
+    let value = trimNext ? text.replace(/^\s+/, '') : text;
+    value = trimEnd ? value.replace(/\s+$/, '') : value;
+    if (value) {
+      tokens.push({ line, type: 'text', value });
+    }
+    line += text.split('\n').length - 1;
+  };
+
+  while (position < template.length) {
+    opening.lastIndex = position;
+    const match = opening.exec(template);
+    if (!match) {
+      pushText(template.slice(position), false);
+      break;
+    }
+    const start = match.index;
+    const closing = CLOSING_DELIMITERS[match[0]];
+    const end = template.indexOf(closing, start + 2);
+    if (end === -1) {
+      throw syntaxError(`unclosed '${match[0]}'`, line);
+    }
+    let inner = template.slice(start + 2, end);
+    const trimBefore = inner.startsWith('-');
+    const trimAfter = inner.endsWith('-');
+    pushText(template.slice(position, start), trimBefore);
+    const tagLine = line;
+    line += inner.split('\n').length - 1;
+    inner = inner.slice(trimBefore ? 1 : 0, trimAfter ? -1 : undefined).trim();
+    position = end + 2;
+    trimNext = trimAfter;
+
+    if (match[0] === '{{') {
+      tokens.push({ line: tagLine, type: 'output', value: inner });
+    } else if (match[0] === '{%' && inner === 'raw') {
+      const endRaw = /{%-?\s*endraw\s*-?%}/g;
+      endRaw.lastIndex = position;
+      const rawEnd = endRaw.exec(template);
+      if (!rawEnd) {
+        throw syntaxError("missing '{% endraw %}'", tagLine);
+      }
+      pushText(template.slice(position, rawEnd.index), false);
+      position = rawEnd.index + rawEnd[0].length;
+      trimNext = rawEnd[0].endsWith('-%}');
+    } else if (match[0] === '{%') {
+      tokens.push({ line: tagLine, type: 'tag', value: inner });
+    }
+  }
+  return tokens;
+}
+
+interface ExpressionToken {
+  type: 'number' | 'string' | 'name' | 'operator' | 'end';
+  value: string;
+}
+
+const EXPRESSION_TOKEN =
+  /\s*(?:(\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_]\w*)|(==|!=|<=|>=|\/\/|[-+*/%~<>()[\]{}.,|:=]))/y;
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+function tokenizeExpression(source: string, line: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  EXPRESSION_TOKEN.lastIndex = 0;
+  while (EXPRESSION_TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(EXPRESSION_TOKEN.lastIndex))) {
+      break;
+    }
+    const index = EXPRESSION_TOKEN.lastIndex;
+    const match = EXPRESSION_TOKEN.exec(source);
+    if (!match) {
+      throw syntaxError(`unexpected '${source.slice(index).trim()[0]}'`, line);
+    }
+    const [, number, string, name, operator] = match;
+    if (number !== undefined) {
+      tokens.push({ type: 'number', value: number });
+    } else if (string !== undefined) {
+      const value = string
+        .slice(1, -1)
+        .replace(/\\(.)/g, (_, char: string) => STRING_ESCAPES[char] ?? char);
+      tokens.push({ type: 'string', value });
+    } else if (name !== undefined) {
+      tokens.push({ type: 'name', value: name });
+    } else {
+      tokens.push({ type: 'operator', value: operator });
+    }
+  }
+  tokens.push({ type: 'end', value: '' });
+  return tokens;
+}
+
+const LITERAL_NAMES: Record<string, unknown> = {
+  False: false,
+  None: null,
+  True: true,
+  false: false,
+  none: null,
+  true: true,
+};
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+class ExpressionParser {
+  private tokens: ExpressionToken[];
+  private position = 0;
+
+  constructor(
+    source: string,
+    private line: number,
+  ) {
+    this.tokens = tokenizeExpression(source, line);
+  }
+
+  private peek(offset = 0): ExpressionToken {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): ExpressionToken {
+    const token = this.peek();
+    this.position = Math.min(this.position + 1, this.tokens.length - 1);
+    return token;
+  }
+
+  private isOperator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.value === value;
+  }
+
+  private expectOperator(value: string) {
+    if (!this.isOperator(value)) {
+      throw this.unexpected(`expected '${value}'`);
+    }
+    this.next();
+  }
+
+  private unexpected(expectation?: string): Error {
+    const token = this.peek();
+    const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+    return syntaxError(`unexpected ${found}${expectation ? `, ${expectation}` : ''}`, this.line);
+  }
+
+  /** Reads a name, such as the target of a for loop */
+  public name(): string {
+    const token = this.next();
+    if (token.type !== 'name') {
+      throw syntaxError(`expected a name, found '${token.value}'`, this.line);
+    }
+    return token.value;
+  }
+
+  public keyword(value: string) {
+    if (!this.isKeyword(value)) {
+      throw this.unexpected(`expected '${value}'`);
+    }
+    this.next();
+  }
+
+  public comma(): boolean {
+    if (this.isOperator(',')) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  public equals() {
+    this.expectOperator('=');
+  }
+
+  public string(): string {
+    const token = this.next();
+    if (token.type !== 'string') {
+      throw syntaxError('expected a quoted template name', this.line);
+    }
+    return token.value;
+  }
+
+  public end() {
+    if (this.peek().type !== 'end') {
+      throw this.unexpected();
+    }
+  }
+
+  public expression(): Expression {
+    const value = this.or();
+    if (this.isKeyword('if')) {
+      this.next();
+      const test = this.or();
+      let alternate: Expression | undefined;
+      if (this.isKeyword('else')) {
+        this.next();
+        alternate = this.expression();
+      }
+      return { alternate, consequent: value, test, type: 'conditional' };
+    }
+    return value;
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { left, operator: 'or', right: this.and(), type: 'binary' };
+    }
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.not();
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { left, operator: 'and', right: this.not(), type: 'binary' };
+    }
+    return left;
+  }
+
+  private not(): Expression {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { operand: this.not(), operator: 'not', type: 'unary' };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Expression {
+    let left = this.concatenation();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+        this.next();
+        left = { left, operator: token.value, right: this.concatenation(), type: 'binary' };
+      } else if (this.isKeyword('in')) {
+        this.next();
+        left = { left, operator: 'in', right: this.concatenation(), type: 'binary' };
+      } else if (this.isKeyword('not') && this.isKeyword('in', 1)) {
+        this.next();
+        this.next();
+        left = { left, operator: 'not in', right: this.concatenation(), type: 'binary' };
+      } else if (this.isKeyword('is')) {
+        this.next();
+        const negated = this.isKeyword('not');
+        if (negated) {
+          this.next();
+        }
+        const name = this.name();
+        const args: Expression[] = [];
+        const token = this.peek();
+        if (token.type === 'number' || token.type === 'string') {
+          args.push(this.primary());
+        } else if (this.isOperator('(')) {
+          args.push(...this.arguments().args);
+        }
+        left = { args, name, negated, type: 'test', value: left };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private concatenation(): Expression {
+    let left = this.additive();
+    while (this.isOperator('~')) {
+      this.next();
+      left = { left, operator: '~', right: this.additive(), type: 'binary' };
+    }
+    return left;
+  }
+
+  private additive(): Expression {
+    let left = this.multiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.next().value;
+      left = { left, operator, right: this.multiplicative(), type: 'binary' };
+    }
+    return left;
+  }
+
+  private multiplicative(): Expression {
+    let left = this.unary();
+    while (['*', '/', '//', '%'].some(operator => this.isOperator(operator))) {
+      const operator = this.next().value;
+      left = { left, operator, right: this.unary(), type: 'binary' };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const operator = this.next().value;
+      return { operand: this.unary(), operator, type: 'unary' };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Expression {
+    let expression = this.primary();
+    for (;;) {
+      if (this.isOperator('.')) {
+        this.next();
+        expression = {
+          object: expression,
+          property: { type: 'literal', value: this.name() },
+          type: 'member',
+        };
+      } else if (this.isOperator('[')) {
+        this.next();
+        const property = this.expression();
+        this.expectOperator(']');
+        expression = { object: expression, property, type: 'member' };
+      } else if (this.isOperator('(')) {
+        expression = { args: this.arguments().args, callee: expression, type: 'call' };
+      } else if (this.isOperator('|')) {
+        this.next();
+        const name = this.name();
+        const { args, kwargs } = this.isOperator('(') ? this.arguments() : { args: [], kwargs: {} };
+        expression = { args, kwargs, name, type: 'filter', value: expression };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private arguments(): { args: Expression[]; kwargs: KeywordArgs } {
+    this.expectOperator('(');
+    const args: Expression[] = [];
+    const kwargs: KeywordArgs = {};
+    while (!this.isOperator(')')) {
+      if (this.peek().type === 'name' && this.isOperator('=', 1)) {
+        const name = this.name();
+        this.next();
+        kwargs[name] = this.expression();
+      } else {
+        args.push(this.expression());
+      }
+      if (!this.comma()) {
+        break;
+      }
+    }
+    this.expectOperator(')');
+    return { args, kwargs };
+  }
+
+  private primary(): Expression {
+    const start = this.position;
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name':
+        return token.value in LITERAL_NAMES
+          ? { type: 'literal', value: LITERAL_NAMES[token.value] }
+          : { name: token.value, type: 'name' };
+      case 'operator':
+        if (token.value === '(') {
+          const expression = this.expression();
+          this.expectOperator(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          const items: Expression[] = [];
+          while (!this.isOperator(']')) {
+            items.push(this.expression());
+            if (!this.comma()) {
+              break;
+            }
+          }
+          this.expectOperator(']');
+          return { items, type: 'list' };
+        }
+        if (token.value === '{') {
+          const entries: Array<[Expression, Expression]> = [];
+          while (!this.isOperator('}')) {
+            const key = this.expression();
+            this.expectOperator(':');
+            entries.push([key, this.expression()]);
+            if (!this.comma()) {
+              break;
+            }
+          }
+          this.expectOperator('}');
+          return { entries, type: 'dict' };
+        }
+    }
+    this.position = start;
+    throw this.unexpected();
+  }
+}
+
+class TemplateParser {
+  private position = 0;
+  private template: JinjaTemplate = { blocks: new Map(), body: [] };
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): JinjaTemplate {
+    const { body, end } = this.body([]);
+    if (end) {
+      throw syntaxError(`unexpected '{% ${end.value} %}'`, end.line);
+    }
+    this.template.body = body;
+    return this.template;
+  }
+
+  /**
+   * Parses nodes until one of the end tags.
+   * @returns The nodes and the end tag that stopped them, undefined at the end of the template
+   */
+  private body(endTags: string[]): { body: TemplateNode[]; end?: Token & { keyword: string } } {
+    const body: TemplateNode[] = [];
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position++];
+      if (token.type === 'text') {
+        body.push({ type: 'text', value: token.value });
+        continue;
+      }
+      if (token.type === 'output') {
+        body.push({ expression: this.expression(token.value, token.line), type: 'output' });
+        continue;
+      }
+      const keyword = token.value.split(/\s+/, 1)[0];
+      if (endTags.includes(keyword)) {
+        return { body, end: { ...token, keyword } };
+      }
+      const node = this.statement(keyword, token);
+      if (node) {
+        body.push(node);
+      }
+    }
+    if (endTags.length > 0) {
+      const line = this.tokens[this.tokens.length - 1]?.line ?? 1;
+      throw syntaxError(`missing '{% ${endTags[endTags.length - 1]} %}'`, line);
+    }
+    return { body };
+  }
+
+  private expression(source: string, line: number): Expression {
+    const parser = new ExpressionParser(source, line);
+    const expression = parser.expression();
+    parser.end();
+    return expression;
+  }
+
+  private statement(keyword: string, token: Token): TemplateNode | undefined {
+    const parser = new ExpressionParser(token.value.slice(keyword.length), token.line);
+    switch (keyword) {
+      case 'if': {
+        const branches = [{ body: [] as TemplateNode[], test: parser.expression() }];
+        parser.end();
+        for (;;) {
+          const { body, end } = this.body(['elif', 'else', 'endif']);
+          branches[branches.length - 1].body = body;
+          if (end!.keyword === 'elif') {
+            const elif = new ExpressionParser(end!.value.slice(4), end!.line);
+            branches.push({ body: [], test: elif.expression() });
+            elif.end();
+          } else if (end!.keyword === 'else') {
+            return { branches, otherwise: this.body(['endif']).body, type: 'if' };
+          } else {
+            return { branches, otherwise: [], type: 'if' };
+          }
+        }
+      }
+      case 'for': {
+        const targets = [parser.name()];
+        while (parser.comma()) {
+          targets.push(parser.name());
+        }
+        parser.keyword('in');
+        const iterable = parser.expression();
+        parser.end();
+        const { body, end } = this.body(['else', 'endfor']);
+        const otherwise = end!.keyword === 'else' ? this.body(['endfor']).body : [];
+        return { body, iterable, otherwise, targets, type: 'for' };
+      }
+      case 'set': {
+        const name = parser.name();
+        parser.equals();
+        const value = parser.expression();
+        parser.end();
+        return { name, type: 'set', value };
+      }
+      case 'include': {
+        const reference = parser.string();
+        parser.end();
+        return { reference, type: 'include' };
+      }
+      case 'extends': {
+        if (this.template.extends) {
+          throw syntaxError('a template can only extend one layout', token.line);
+        }
+        this.template.extends = parser.string();
+        parser.end();
+        return undefined;
+      }
+      case 'block': {
+        const name = parser.name();
+        parser.end();
+        if (this.template.blocks.has(name)) {
+          throw syntaxError(`block '${name}' is defined twice`, token.line);
+        }
+        const { body } = this.body(['endblock']);
+        this.template.blocks.set(name, body);
+        return { body, name, type: 'block' };
+      }
+      default:
+        throw syntaxError(`unknown tag '${keyword}'`, token.line);
+    }
+  }
+}
+
+/**
+ * Parse a template.
+ * @throws Error describing the first syntax error and its line
+ */
+export function parseJinja(template: string): JinjaTemplate {
+  return new TemplateParser(tokenize(template)).parse();
+}
+
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Python truthiness: empty strings, lists and mappings are false */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value) || typeof value === 'string') {
+    return value.length > 0;
+  }
+  if (isMapping(value)) {
+    return Object.keys(value).length > 0;
+  }
+  return Boolean(value);
+}
+
+/** Renders scalars the way Python prints them and containers as JSON */
+function toText(value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (value === null) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function toIterable(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return Array.from(value);
+  }
+  if (isMapping(value)) {
+    return Object.keys(value);
+  }
+  throw new Error(`'${toText(value)}' is not iterable`);
+}
+
+/** Only own properties are readable, so templates cannot reach prototypes */
+function getAttribute(object: unknown, key: unknown): unknown {
+  if (object === undefined || object === null) {
+    return undefined;
+  }
+  if (typeof key === 'number' && (Array.isArray(object) || typeof object === 'string')) {
+    return object[key < 0 ? object.length + key : key];
+  }
+  const name = String(key);
+  return Object.prototype.hasOwnProperty.call(object, name)
+    ? (object as Record<string, unknown>)[name]
+    : undefined;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '"': '&#34;',
+  '&': '&amp;',
+  "'": '&#39;',
+  '<': '&lt;',
+  '>': '&gt;',
+};
+
+type Filter = (value: any, args: unknown[], kwargs: Record<string, unknown>) => unknown;
+
+/**
+ * The filters templates can use, named as in Jinja
+ */
+export const JINJA_FILTERS: Record<string, Filter> = {
+  abs: value => Math.abs(Number(value)),
+  capitalize: value => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  },
+  count: value => toIterable(value).length,
+  default: (value, [fallback = '', boolean = false]) =>
+    value === undefined || (boolean && !isTruthy(value)) ? fallback : value,
+  escape: value => toText(value).replace(/[&<>"']/g, char => HTML_ESCAPES[char]),
+  first: value => toIterable(value)[0],
+  float: (value, [fallback = 0]) => (Number.isNaN(Number(value)) ? fallback : Number(value)),
+  indent: (value, [width = 4, first = false]) => {
+    const padding = typeof width === 'string' ? width : ' '.repeat(Number(width));
+    return toText(value)
+      .split('\n')
+      .map((line, index) => ((index > 0 || first) && line ? padding + line : line))
+      .join('\n');
+  },
+  int: (value, [fallback = 0]) =>
+    Number.isNaN(parseInt(String(value), 10)) ? fallback : parseInt(String(value), 10),
+  join: (value, [separator = ''], { attribute }) =>
+    toIterable(value)
+      .map(item => toText(attribute === undefined ? item : getAttribute(item, attribute)))
+      .join(toText(separator)),
+  last: value => toIterable(value).at(-1),
+  length: value => toIterable(value).length,
+  list: value => toIterable(value),
+  lower: value => toText(value).toLowerCase(),
+  map: (value, [filter], { attribute }) =>
+    toIterable(value).map(item =>
+      attribute !== undefined
+        ? getAttribute(item, attribute)
+        : callFilter(String(filter), item, [], {}),
+    ),
+  replace: (value, [search, replacement]) =>
+    toText(value).split(toText(search)).join(toText(replacement)),
+  reverse: value =>
+    typeof value === 'string'
+      ? Array.from(value).reverse().join('')
+      : [...toIterable(value)].reverse(),
+  round: (value, [precision = 0]) => {
+    const factor = 10 ** Number(precision);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  safe: value => value,
+  sort: (value, [reverse = false], { attribute }) => {
+    const key = (item: unknown) => (attribute === undefined ? item : getAttribute(item, attribute));
+    const sorted = [...toIterable(value)].sort((a, b) => {
+      const [x, y] = [key(a), key(b)] as [any, any];
+      return x < y ? -1 : x > y ? 1 : 0;
+    });
+    return reverse ? sorted.reverse() : sorted;
+  },
+  string: value => toText(value),
+  title: value =>
+    toText(value).replace(/\w\S*/g, word => word[0].toUpperCase() + word.slice(1).toLowerCase()),
+  tojson: (value, [indent], kwargs) =>
+    JSON.stringify(value ?? null, null, (kwargs.indent ?? indent) as number | undefined),
+  trim: value => toText(value).trim(),
+  truncate: (value, [length = 255, killwords = false, end = '...']) => {
+    const text = toText(value);
+    const limit = Number(length);
+    if (text.length <= limit) {
+      return text;
+    }
+    const cut = text.slice(0, Math.max(limit - toText(end).length, 0));
+    return (killwords ? cut : cut.replace(/\s+\S*$/, '')) + toText(end);
+  },
+  unique: value => Array.from(new Set(toIterable(value))),
+  upper: value => toText(value).toUpperCase(),
+  wordcount: value => toText(value).split(/\s+/).filter(Boolean).length,
+};
+JINJA_FILTERS.d = JINJA_FILTERS.default;
+JINJA_FILTERS.e = JINJA_FILTERS.escape;
+
+function callFilter(
+  name: string,
+  value: unknown,
+  args: unknown[],
+  kwargs: Record<string, unknown>,
+): unknown {
+  if (!Object.prototype.hasOwnProperty.call(JINJA_FILTERS, name)) {
+    throw new Error(`No filter named '${name}'.`);
+  }
+  return JINJA_FILTERS[name](value, args, kwargs);
+}
+
+const TESTS: Record<string, (value: unknown, ...args: unknown[]) => boolean> = {
+  defined: value => value !== undefined,
+  divisibleby: (value, divisor) => Number(value) % Number(divisor) === 0,
+  even: value => Number(value) % 2 === 0,
+  false: value => value === false,
+  iterable: value => Array.isArray(value) || typeof value === 'string' || isMapping(value),
+  mapping: value => isMapping(value),
+  none: value => value === null,
+  number: value => typeof value === 'number',
+  odd: value => Math.abs(Number(value) % 2) === 1,
+  sequence: value => Array.isArray(value) || typeof value === 'string',
+  string: value => typeof value === 'string',
+  true: value => value === true,
+  undefined: value => value === undefined,
+};
+
+/** Mapping methods templates commonly call, such as {% for key, value in env.items() %} */
+const MAPPING_METHODS: Record<string, (mapping: Record<string, unknown>) => unknown> = {
+  items: mapping => Object.entries(mapping),
+  keys: mapping => Object.keys(mapping),
+  values: mapping => Object.values(mapping),
+};
+
+type Scope = Record<string, unknown>;
+
+interface RenderState {
+  partials: JinjaPartials;
+  /** Block overrides of the templates extending the one being rendered, most derived first */
+  blocks: Map<string, TemplateNode[]>;
+  escape: (text: string) => string;
+}
+
+function lookup(scope: Scope, name: string): unknown {
+  return name in scope ? scope[name] : undefined;
+}
+
+function evaluate(expression: Expression, scope: Scope): unknown {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'name':
+      return lookup(scope, expression.name);
+    case 'list':
+      return expression.items.map(item => evaluate(item, scope));
+    case 'dict':
+      return Object.fromEntries(
+        expression.entries.map(([key, value]) => [
+          toText(evaluate(key, scope)),
+          evaluate(value, scope),
+        ]),
+      );
+    case 'member':
+      return getAttribute(evaluate(expression.object, scope), evaluate(expression.property, scope));
+    case 'call': {
+      const { callee } = expression;
+      if (callee.type === 'member' && callee.property.type === 'literal') {
+        const object = evaluate(callee.object, scope);
+        const method = MAPPING_METHODS[String(callee.property.value)];
+        if (method && isMapping(object) && expression.args.length === 0) {
+          return method(object);
+        }
+      }
+      throw new Error('Templates can only call items(), keys() and values() on mappings.');
+    }
+    case 'filter':
+      return callFilter(
+        expression.name,
+        evaluate(expression.value, scope),
+        expression.args.map(arg => evaluate(arg, scope)),
+        Object.fromEntries(
+          Object.entries(expression.kwargs).map(([name, arg]) => [name, evaluate(arg, scope)]),
+        ),
+      );
+    case 'test': {
+      const test = TESTS[expression.name];
+      if (!test) {
+        throw new Error(`No test named '${expression.name}'.`);
+      }
+      const args = expression.args.map(arg => evaluate(arg, scope));
+      return test(evaluate(expression.value, scope), ...args) !== expression.negated;
+    }
+    case 'unary': {
+      const operand = evaluate(expression.operand, scope);
+      if (expression.operator === 'not') {
+        return !isTruthy(operand);
+      }
+      return expression.operator === '-' ? -Number(operand) : Number(operand);
+    }
+    case 'binary':
+      return evaluateBinary(expression, scope);
+    case 'conditional':
+      return isTruthy(evaluate(expression.test, scope))
+        ? evaluate(expression.consequent, scope)
+        : expression.alternate && evaluate(expression.alternate, scope);
+  }
+}
+
+function evaluateBinary(
+  expression: Extract<Expression, { type: 'binary' }>,
+  scope: Scope,
+): unknown {
+  const left = evaluate(expression.left, scope);
+  if (expression.operator === 'and') {
+    return isTruthy(left) ? evaluate(expression.right, scope) : left;
+  }
+  if (expression.operator === 'or') {
+    return isTruthy(left) ? left : evaluate(expression.right, scope);
+  }
+  const right = evaluate(expression.right, scope) as any;
+  const l = left as any;
+  switch (expression.operator) {
+    case '==':
+      return l === right;
+    case '!=':
+      return l !== right;
+    case '<':
+      return l < right;
+    case '<=':
+      return l <= right;
+    case '>':
+      return l > right;
+    case '>=':
+      return l >= right;
+    case 'in':
+    case 'not in': {
+      const found =
+        Array.isArray(right) || typeof right === 'string'
+          ? right.includes(l)
+          : isMapping(right) && Object.prototype.hasOwnProperty.call(right, toText(l));
+      return found === (expression.operator === 'in');
+    }
+    case '~':
+      return toText(l) + toText(right);
+    case '+':
+      if (Array.isArray(l) && Array.isArray(right)) {
+        return [...l, ...right];
+      }
+      return typeof l === 'string' || typeof right === 'string'
+        ? toText(l) + toText(right)
+        : Number(l) + Number(right);
+    case '-':
+      return Number(l) - Number(right);
+    case '*':
+      return typeof l === 'string' ? l.repeat(Number(right)) : Number(l) * Number(right);
+    case '/':
+      return Number(l) / Number(right);
+    case '//':
+      return Math.floor(Number(l) / Number(right));
+    case '%':
+      return Number(l) % Number(right);
+  }
+  throw new Error(`Unknown operator '${expression.operator}'.`);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, state: RenderState): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'output': {
+        const { expression } = node;
+        const text = toText(evaluate(expression, scope));
+        output +=
+          expression.type === 'filter' && expression.name === 'safe' ? text : state.escape(text);
+        break;
+      }
+      case 'if': {
+        const branch = node.branches.find(b => isTruthy(evaluate(b.test, scope)));
+        output += renderNodes(branch ? branch.body : node.otherwise, scope, state);
+        break;
+      }
+      case 'for': {
+        const items = toIterable(evaluate(node.iterable, scope));
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scope, state);
+          break;
+        }
+        items.forEach((item, index) => {
+          const iteration: Scope = Object.create(scope);
+          const values = node.targets.length > 1 ? toIterable(item) : [item];
+          node.targets.forEach((target, i) => {
+            iteration[target] = values[i];
+          });
+          iteration.loop = {
+            first: index === 0,
+            index: index + 1,
+            index0: index,
+            last: index === items.length - 1,
+            length: items.length,
+            revindex: items.length - index,
+            revindex0: items.length - index - 1,
+          };
+          output += renderNodes(node.body, iteration, state);
+        });
+        break;
+      }
+      case 'set':
+        scope[node.name] = evaluate(node.value, scope);
+        break;
+      case 'include': {
+        const partial = state.partials[node.reference];
+        if (partial) {
+          output += renderTemplate(partial, scope, { ...state, blocks: new Map() });
+        }
+        break;
+      }
+      case 'block':
+        output += renderNodes(state.blocks.get(node.name) ?? node.body, scope, state);
+        break;
+    }
+  }
+  return output;
+}
+
+function renderTemplate(template: JinjaTemplate, scope: Scope, state: RenderState): string {
+  if (!template.extends) {
+    return renderNodes(template.body, scope, state);
+  }
+  const layout = state.partials[template.extends];
+  if (!layout) {
+    throw new Error(`Layout prompt '${template.extends}' not found.`);
+  }
+  // The most derived override of a block wins
+  const blocks = new Map(state.blocks);
+  for (const [name, body] of template.blocks) {
+    if (!blocks.has(name)) {
+      blocks.set(name, body);
+    }
+  }
+  // Only the assignments outside blocks run in a template that extends a layout
+  for (const node of template.body) {
+    if (node.type === 'set') {
+      scope[node.name] = evaluate(node.value, scope);
+    }
+  }
+  return renderTemplate(layout, scope, { ...state, blocks });
+}
+
+/**
+ * Render a parsed template.
+ * @param partials The templates it includes or extends, by the reference written in it
+ * @param escape Escapes the text of every {{ expression }}
+ */
+export function renderJinja(
+  template: JinjaTemplate,
+  variables: Record<string, unknown>,
+  partials: JinjaPartials = {},
+  escape: (text: string) => string = text => text,
+): string {
+  const scope: Scope = Object.assign(Object.create(null), variables);
+  return renderTemplate(template, scope, { blocks: new Map(), escape, partials });
+}
+
+/**
+ * Find the variables, filters and templates a template uses. Loop targets, loop and names
+ * assigned with set are local, so they are not variables.
+ * @throws Error describing the first syntax error
+ */
+export function analyzeJinja(template: string): TemplateAnalysis {
+  const parsed = parseJinja(template);
+  const variables = new Set<string>();
+  const paths = new Set<string>();
+  const helpers = new Set<string>();
+  const unknownHelpers = new Set<string>();
+  const partials = new Set<string>(parsed.extends ? [parsed.extends] : []);
+  const locals: Array<Set<string>> = [new Set()];
+
+  const isLocal = (name: string) => locals.some(scope => scope.has(name));
+
+  /** The dotted path of a member chain with literal keys, such as user.address.city */
+  const pathOf = (expression: Expression): string[] | undefined => {
+    if (expression.type === 'name') {
+      return [expression.name];
+    }
+    if (expression.type === 'member' && expression.property.type === 'literal') {
+      const object = pathOf(expression.object);
+      return object && [...object, String(expression.property.value)];
+    }
+    return undefined;
+  };
+
+  const visitExpression = (expression: Expression) => {
+    const path = pathOf(expression);
+    if (path) {
+      if (!isLocal(path[0])) {
+        variables.add(path[0]);
+        paths.add(path.join('.'));
+      }
+      return;
+    }
+    switch (expression.type) {
+      case 'list':
+        expression.items.forEach(visitExpression);
+        return;
+      case 'dict':
+        expression.entries.forEach(([key, value]) => {
+          visitExpression(key);
+          visitExpression(value);
+        });
+        return;
+      case 'member':
+        visitExpression(expression.object);
+        visitExpression(expression.property);
+        return;
+      case 'call':
+        visitExpression(
+          expression.callee.type === 'member' ? expression.callee.object : expression.callee,
+        );
+        expression.args.forEach(visitExpression);
+        return;
+      case 'filter': {
+        const known = Object.prototype.hasOwnProperty.call(JINJA_FILTERS, expression.name);
+        (known ? helpers : unknownHelpers).add(expression.name);
+        visitExpression(expression.value);
+        expression.args.forEach(visitExpression);
+        Object.values(expression.kwargs).forEach(visitExpression);
+        return;
+      }
+      case 'test':
+        visitExpression(expression.value);
+        expression.args.forEach(visitExpression);
+        return;
+      case 'unary':
+        visitExpression(expression.operand);
+        return;
+      case 'binary':
+        visitExpression(expression.left);
+        visitExpression(expression.right);
+        return;
+      case 'conditional':
+        visitExpression(expression.test);
+        visitExpression(expression.consequent);
+        if (expression.alternate) {
+          visitExpression(expression.alternate);
+        }
+        return;
+    }
+  };
+
+  const visitNodes = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'output':
+          visitExpression(node.expression);
+          break;
+        case 'if':
+          node.branches.forEach(branch => {
+            visitExpression(branch.test);
+            visitNodes(branch.body);
+          });
+          visitNodes(node.otherwise);
+          break;
+        case 'for':
+          visitExpression(node.iterable);
+          locals.push(new Set([...node.targets, 'loop']));
+          visitNodes(node.body);
+          locals.pop();
+          visitNodes(node.otherwise);
+          break;
+        case 'set':
+          visitExpression(node.value);
+          locals[locals.length - 1].add(node.name);
+          break;
+        case 'include':
+          partials.add(node.reference);
+          break;
+        case 'block':
+          visitNodes(node.body);
+          break;
+      }
+    }
+  };
+  visitNodes(parsed.body);
+
+  return {
+    helpers: Array.from(helpers),
+    partials: Array.from(partials),
+    paths: Array.from(paths),
+    unknownHelpers: Array.from(unknownHelpers),
+    variables: Array.from(variables),
+  };
+}
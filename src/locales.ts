@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+
+import { ValidationError } from './errors.js';
+import type { LocalizationStatus, Prompt } from './interfaces.js';
+
+/**
+ * The canonical form of a BCP-47 locale without extensions: cs-cz becomes cs-CZ.
+ * @throws ValidationError if the locale is not a valid BCP-47 tag
+ */
+export function canonicalLocale(locale: string): string {
+  try {
+    return new Intl.Locale(locale).baseName;
+  } catch {
+    throw new ValidationError(`Invalid locale '${locale}'.`, [
+      { message: `Invalid BCP-47 locale '${locale}'.`, path: ['locale'] },
+    ]);
+  }
+}
+
+/**
+ * The locales to look for, most specific first: zh-Hant-TW, zh-Hant, zh.
+ */
+export function localeFallbacks(locale: string): string[] {
+  const subtags = canonicalLocale(locale).split('-');
+  return subtags.map((_, dropped) => subtags.slice(0, subtags.length - dropped).join('-'));
+}
+
+/**
+ * A hash of the content translations are made from, so edits in place also make them stale.
+ */
+export function sourceHash(prompt: Pick<Prompt, 'content' | 'messages'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([prompt.content, prompt.messages ?? null]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * The prompt in the first locale of the fallback chain it has, with locale set to that locale.
+ * The prompt is returned as it is when no locale is requested or none of the chain matches.
+ */
+export function localizePrompt(prompt: Prompt, locale?: string): Prompt {
+  if (!locale) {
+    return prompt;
+  }
+  const own = prompt.locale ? canonicalLocale(prompt.locale) : undefined;
+  for (const candidate of localeFallbacks(locale)) {
+    if (candidate === own) {
+      return prompt;
+    }
+    const translation = prompt.translations?.[candidate];
+    if (translation) {
+      return {
+        ...prompt,
+        content: translation.content,
+        description: translation.description ?? prompt.description,
+        locale: candidate,
+        messages: translation.messages,
+      };
+    }
+  }
+  return prompt;
+}
+
+/**
+ * The locales a prompt covers and the translations made before its content last changed.
+ */
+export function localizationStatus(prompt: Prompt): LocalizationStatus {
+  const hash = sourceHash(prompt);
+  const translations = Object.entries(prompt.translations ?? {});
+  return {
+    locales: [...(prompt.locale ? [prompt.locale] : []), ...translations.map(([locale]) => locale)],
+    stale: translations
+      .filter(([, translation]) => translation.sourceHash !== hash)
+      .map(([locale, { sourceVersion }]) => ({ locale, sourceVersion })),
+  };
+}
@@ -0,0 +1,847 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  type EventStore,
+  StreamableHTTPServerTransport,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  type CallToolResult,
+  CompleteRequestSchema,
+  type ElicitRequest,
+  type ElicitResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  type JSONRPCMessage,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type Resource,
+  type ServerNotification,
+  type ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { AppError, HttpErrorCode, NotFoundError, ValidationError } from './errors.js';
+import type { CreatePromptParams, PromptChangeEvent, UpdatePromptParams } from './interfaces.js';
+import { type PromptService, VariableHistory } from './prompt-service.js';
+import { promptSchemas, workflowSchema } from './schemas.js';
+import type { ISequenceApplication } from './sequence-service.js';
+import { getSseManager } from './sse.js';
+import {
+  getAllWorkflows,
+  type IWorkflowApplication,
+  loadWorkflowFromFile,
+  onWorkflowChange,
+  type RunWorkflowResult,
+} from './workflow-service.js';
+
+export interface McpServerServices {
+  promptService: PromptService;
+  sequenceService: ISequenceApplication;
+  workflowService: IWorkflowApplication;
+}
+
+export interface McpServerOptions {
+  name: string;
+  version: string;
+}
+
+const defaultServerOptions: McpServerOptions = {
+  name: 'mcp-prompts',
+  version: '1.3.0',
+};
+
+/** completion/complete may return at most 100 values */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Creates an MCP server with the prompt catalog registered on it.
+ * @param services Application services backing the MCP handlers
+ * @param options Server name and version advertised to clients
+ */
+export function createMcpServer(
+  services: McpServerServices,
+  options: McpServerOptions = defaultServerOptions,
+): McpServer {
+  const mcpServer = new McpServer(
+    { name: options.name, version: options.version },
+    {
+      capabilities: {
+        completions: {},
+        prompts: { listChanged: true },
+        resources: { listChanged: true, subscribe: true },
+      },
+    },
+  );
+
+  // The values this server's client used, which its completions suggest
+  const history = new VariableHistory();
+  registerPromptHandlers(mcpServer, services.promptService, history);
+  registerCompletionHandler(mcpServer, services.promptService, history);
+  registerPromptTools(mcpServer, services.promptService, history);
+  registerWorkflowTools(mcpServer, services.workflowService);
+  registerResourceHandlers(mcpServer, services);
+  registerListChangedNotifications(mcpServer, services.promptService);
+
+  return mcpServer;
+}
+
+/**
+ * Registers prompts/list and prompts/get. Prompts live in storage and change at runtime,
+ * so the handlers are installed on the underlying Server instead of registering each
+ * prompt statically through McpServer.registerPrompt.
+ */
+function registerPromptHandlers(
+  mcpServer: McpServer,
+  promptService: PromptService,
+  history: VariableHistory,
+) {
+  mcpServer.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = await promptService.listPrompts({});
+    return promptService.formatMcpPromptsList(prompts);
+  });
+
+  mcpServer.server.setRequestHandler(GetPromptRequestSchema, async request => {
+    const { _meta: meta, name, arguments: args } = request.params;
+    // Clients pick a locale with _meta.locale, since prompt arguments are template variables
+    const locale = typeof meta?.locale === 'string' ? meta.locale : undefined;
+    const prompt = await promptService.getPrompt(name, undefined, locale);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+    }
+    try {
+      const result = await promptService.formatMcpPrompt(prompt, args);
+      if (prompt.isTemplate && args) {
+        history.record(prompt.id, args);
+      }
+      return result;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new McpError(ErrorCode.InvalidParams, message);
+    }
+  });
+}
+
+/**
+ * Registers completion/complete for prompt arguments, suggesting values from the template
+ * variable's options, its default and values this server's client previously used for it.
+ */
+function registerCompletionHandler(
+  mcpServer: McpServer,
+  promptService: PromptService,
+  history: VariableHistory,
+) {
+  mcpServer.server.setRequestHandler(CompleteRequestSchema, async request => {
+    const { argument, ref } = request.params;
+    const values =
+      ref.type === 'ref/prompt'
+        ? await promptService.completeTemplateVariable(
+            ref.name,
+            argument.name,
+            argument.value,
+            history,
+          )
+        : [];
+    return {
+      completion: {
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+        total: values.length,
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+      },
+    };
+  });
+}
+
+const resourceTemplates = [
+  {
+    description: 'Latest version of a stored prompt',
+    mimeType: 'text/plain',
+    name: 'prompt',
+    uriTemplate: 'prompt://{id}',
+  },
+  {
+    description: 'A specific version of a stored prompt',
+    mimeType: 'text/plain',
+    name: 'prompt-version',
+    uriTemplate: 'prompt://{id}/v{version}',
+  },
+  {
+    description: 'A prompt sequence definition',
+    mimeType: 'application/json',
+    name: 'sequence',
+    uriTemplate: 'sequence://{id}',
+  },
+  {
+    description: 'Latest version of a workflow definition',
+    mimeType: 'application/json',
+    name: 'workflow',
+    uriTemplate: 'workflow://{id}',
+  },
+  {
+    description: 'A specific version of a workflow definition',
+    mimeType: 'application/json',
+    name: 'workflow-version',
+    uriTemplate: 'workflow://{id}/v{version}',
+  },
+];
+
+type ResourceKind = 'prompt' | 'sequence' | 'workflow';
+
+interface ResourceRef {
+  kind: ResourceKind;
+  id: string;
+  version?: number;
+}
+
+/**
+ * Builds the resource URI for a prompt, sequence or workflow.
+ */
+function resourceUri(kind: ResourceKind, id: string, version?: number): string {
+  const base = `${kind}://${encodeURIComponent(id)}`;
+  return version === undefined ? base : `${base}/v${version}`;
+}
+
+function parseResourceUri(uri: string): ResourceRef | null {
+  const match = uri.match(/^(prompt|sequence|workflow):\/\/([^/]+)(?:\/v(\d+))?$/);
+  if (!match || (match[1] === 'sequence' && match[3] !== undefined)) {
+    return null;
+  }
+  let id: string;
+  try {
+    id = decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+  return {
+    id,
+    kind: match[1] as ResourceKind,
+    version: match[3] === undefined ? undefined : Number(match[3]),
+  };
+}
+
+/**
+ * Registers resources/list, resources/templates/list, resources/read and subscriptions.
+ * Prompts are served as plain text so clients can attach them as context; sequences and
+ * workflows are served as JSON.
+ */
+function registerResourceHandlers(mcpServer: McpServer, services: McpServerServices) {
+  const { promptService, sequenceService } = services;
+
+  mcpServer.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const [prompts, sequences] = await Promise.all([
+      promptService.listPrompts({}),
+      sequenceService.listSequences(),
+    ]);
+    const resources: Resource[] = [
+      ...prompts.map(prompt => ({
+        description: prompt.description,
+        mimeType: 'text/plain',
+        name: prompt.id,
+        title: prompt.name,
+        uri: resourceUri('prompt', prompt.id),
+      })),
+      ...sequences.map(sequence => ({
+        description: sequence.description,
+        mimeType: 'application/json',
+        name: sequence.id,
+        title: sequence.name,
+        uri: resourceUri('sequence', sequence.id),
+      })),
+      ...getAllWorkflows().map(workflow => ({
+        mimeType: 'application/json',
+        name: workflow.id,
+        title: workflow.name,
+        uri: resourceUri('workflow', workflow.id),
+      })),
+    ];
+    return { resources };
+  });
+
+  mcpServer.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  mcpServer.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+    const { uri } = request.params;
+    const ref = parseResourceUri(uri);
+    const notFound = new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    if (!ref) {
+      throw notFound;
+    }
+    if (ref.kind === 'prompt') {
+      const prompt = await promptService.getPrompt(ref.id, ref.version);
+      if (!prompt) {
+        throw notFound;
+      }
+      return { contents: [{ mimeType: 'text/plain', text: prompt.content, uri }] };
+    }
+    const definition =
+      ref.kind === 'sequence'
+        ? await sequenceService.getSequence(ref.id)
+        : loadWorkflowFromFile(ref.id, ref.version);
+    if (!definition) {
+      throw notFound;
+    }
+    return {
+      contents: [{ mimeType: 'application/json', text: JSON.stringify(definition, null, 2), uri }],
+    };
+  });
+
+  const subscriptions = new Set<string>();
+
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    if (!parseResourceUri(request.params.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = (affected: string[]) => {
+    for (const uri of affected.filter(uri => subscriptions.has(uri))) {
+      mcpServer.server.sendResourceUpdated({ uri }).catch(() => {
+        // The client disconnected; the listeners are removed on close
+      });
+    }
+  };
+
+  const removeListeners = [
+    promptService.onPromptChange((event: PromptChangeEvent) => {
+      // The unversioned URI follows the latest version, so any change may affect it
+      const latest = resourceUri('prompt', event.id);
+      notify(
+        event.version !== undefined
+          ? [latest, resourceUri('prompt', event.id, event.version)]
+          : [latest, ...Array.from(subscriptions).filter(uri => uri.startsWith(`${latest}/v`))],
+      );
+    }),
+    sequenceService.onSequenceChange(id => notify([resourceUri('sequence', id)])),
+    onWorkflowChange((id, version) =>
+      notify([resourceUri('workflow', id), resourceUri('workflow', id, version)]),
+    ),
+  ];
+
+  onServerClose(mcpServer, () => {
+    removeListeners.forEach(removeListener => removeListener());
+    subscriptions.clear();
+  });
+}
+
+/**
+ * Sends prompts/list_changed and resources/list_changed whenever the prompt store changes.
+ * Changes made in the same tick, such as a bulk import, produce a single notification.
+ */
+function registerListChangedNotifications(mcpServer: McpServer, promptService: PromptService) {
+  let pending = false;
+  const removeListener = promptService.onPromptChange(() => {
+    if (pending) {
+      return;
+    }
+    pending = true;
+    setImmediate(() => {
+      pending = false;
+      if (!mcpServer.isConnected()) {
+        return;
+      }
+      const ignoreDisconnect = () => {
+        // The client disconnected; the listener is removed on close
+      };
+      mcpServer.server.sendPromptListChanged().catch(ignoreDisconnect);
+      mcpServer.server.sendResourceListChanged().catch(ignoreDisconnect);
+    });
+  });
+  onServerClose(mcpServer, removeListener);
+}
+
+/**
+ * Runs cleanup when the server's transport closes, keeping any existing close handler.
+ */
+function onServerClose(mcpServer: McpServer, cleanup: () => void) {
+  const onclose = mcpServer.server.onclose;
+  mcpServer.server.onclose = () => {
+    cleanup();
+    onclose?.();
+  };
+}
+
+/**
+ * Serializes a tool result as JSON text content.
+ */
+function toolResult(result: unknown): CallToolResult {
+  return { content: [{ text: JSON.stringify(result, null, 2), type: 'text' }] };
+}
+
+/**
+ * Maps an error to a tool error result, using the same envelope as the REST error handler.
+ */
+function toolError(error: unknown): CallToolResult {
+  let code: string = HttpErrorCode.INTERNAL_SERVER_ERROR;
+  let details: unknown;
+  if (error instanceof z.ZodError) {
+    code = HttpErrorCode.VALIDATION_ERROR;
+    details = error.errors;
+  } else if (error instanceof AppError) {
+    code = error.code;
+    details = error instanceof ValidationError ? error.details : undefined;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      { text: JSON.stringify({ error: { code, details, message } }, null, 2), type: 'text' },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Drops null and undefined fields so omitted tool arguments leave stored values untouched.
+ */
+function omitNullish<T extends object>(args: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(args).filter(([, value]) => value !== null && value !== undefined),
+  ) as Partial<T>;
+}
+
+async function runTool(fn: () => Promise<unknown>): Promise<CallToolResult> {
+  try {
+    return toolResult(await fn());
+  } catch (error: unknown) {
+    return toolError(error);
+  }
+}
+
+/**
+ * Registers the prompt management tools. Input schemas are derived from promptSchemas so
+ * MCP clients and the REST API validate prompts the same way.
+ */
+function registerPromptTools(
+  mcpServer: McpServer,
+  promptService: PromptService,
+  history: VariableHistory,
+) {
+  mcpServer.registerTool(
+    'add_prompt',
+    {
+      description:
+        'Create a prompt from content or from chat messages. The id is derived from the name unless given.',
+      inputSchema: { ...promptSchemas.create.shape, id: z.string().min(1).optional() },
+    },
+    args => runTool(() => promptService.createPrompt(omitNullish(args) as CreatePromptParams)),
+  );
+
+  mcpServer.registerTool(
+    'update_prompt',
+    {
+      description: 'Update a specific version of a prompt.',
+      inputSchema: {
+        ...promptSchemas.update.shape,
+        id: z.string().min(1),
+        version: z.number().int().positive(),
+      },
+    },
+    ({ id, version, ...changes }) =>
+      runTool(() =>
+        promptService.updatePrompt(
+          id,
+          version,
+          omitNullish(changes) as Omit<UpdatePromptParams, 'id' | 'version'>,
+        ),
+      ),
+  );
+
+  mcpServer.registerTool(
+    'delete_prompt',
+    {
+      description: 'Delete a prompt version, or every version when no version is given.',
+      inputSchema: {
+        ...promptSchemas.delete.shape,
+        version: z.number().int().positive().optional(),
+      },
+    },
+    ({ id, version }) =>
+      runTool(async () => {
+        const deleted = await promptService.deletePrompt(id, version);
+        if (!deleted) {
+          throw new NotFoundError(`Prompt not found: ${id}${version ? ` v${version}` : ''}`);
+        }
+        return { success: true };
+      }),
+  );
+
+  mcpServer.registerTool(
+    'list_prompts',
+    {
+      description: 'List and search prompts (latest versions only).',
+      inputSchema: promptSchemas.list.shape,
+    },
+    args => runTool(() => promptService.listPrompts(args)),
+  );
+
+  mcpServer.registerTool(
+    'get_prompt_versions',
+    {
+      description: 'List all stored version numbers of a prompt.',
+      inputSchema: promptSchemas.get.shape,
+    },
+    ({ id }) => runTool(async () => ({ id, versions: await promptService.listPromptVersions(id) })),
+  );
+
+  mcpServer.registerTool(
+    'apply_template',
+    {
+      description: 'Render a template prompt with the given variables.',
+      inputSchema: {
+        ...promptSchemas.applyTemplate.shape,
+        version: z.number().int().positive().optional(),
+      },
+    },
+    ({ id, locale, variables, version }) =>
+      runTool(async () => {
+        const result = await promptService.applyTemplate(id, variables, version, { locale });
+        history.record(result.originalPrompt.id, variables);
+        return result;
+      }),
+  );
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Workflow events forwarded to MCP clients as progress notifications */
+const progressEvents = new Set(['step_started', 'step_completed']);
+
+/**
+ * Forwards the SSE step events of one workflow execution as progress notifications, if the
+ * client asked for progress by sending a progress token.
+ * @returns A function that stops forwarding
+ */
+function forwardWorkflowProgress(executionId: string, extra: ToolExtra): () => void {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return () => undefined;
+  }
+  let progress = 0;
+  const listener = (message: { event?: string; executionId?: string; stepId?: string }) => {
+    if (message.executionId !== executionId || !progressEvents.has(message.event ?? '')) {
+      return;
+    }
+    progress += 1;
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { message: `${message.event}: ${message.stepId}`, progress, progressToken },
+      })
+      .catch(() => {
+        // Progress is best effort; the tool result still reports the outcome
+      });
+  };
+  const sseManager = getSseManager();
+  sseManager.on('broadcast', listener);
+  return () => {
+    sseManager.off('broadcast', listener);
+  };
+}
+
+/** Reply schema for human-approval steps that do not declare an inputSchema */
+const defaultApprovalSchema: ElicitRequest['params']['requestedSchema'] = {
+  properties: { response: { description: 'Your reply to the approval request', type: 'string' } },
+  required: ['response'],
+  type: 'object',
+};
+
+/**
+ * Asks the client for each human-approval reply through elicitation and resumes the run with
+ * it, as resumeWorkflow would. The elicitation is sent on the stream of the tool call, so
+ * Streamable HTTP clients without a standalone stream receive it too. The run stays paused if
+ * the client cannot elicit, the elicitation fails or the user declines or cancels.
+ * @param extra The tool call the approvals belong to
+ */
+async function resolveApprovals(
+  mcpServer: McpServer,
+  workflowService: IWorkflowApplication,
+  executionId: string,
+  result: RunWorkflowResult,
+  extra: ToolExtra,
+): Promise<RunWorkflowResult> {
+  while (result.paused && mcpServer.server.getClientCapabilities()?.elicitation) {
+    let reply: ElicitResult;
+    try {
+      reply = await mcpServer.server.elicitInput(
+        {
+          message: result.prompt ?? `Approve workflow step ${result.stepId}`,
+          requestedSchema:
+            (result.inputSchema as ElicitRequest['params']['requestedSchema'] | undefined) ??
+            defaultApprovalSchema,
+        },
+        { relatedRequestId: extra.requestId },
+      );
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { ...result, message: `Approval failed (${reason}); the workflow stays paused` };
+    }
+    if (reply.action !== 'accept' || !reply.content) {
+      const outcome = reply.action === 'decline' ? 'declined' : 'cancelled';
+      return { ...result, message: `Approval ${outcome}; the workflow stays paused` };
+    }
+    const input = result.inputSchema ? reply.content : reply.content.response;
+    result = await workflowService.resumeWorkflow(executionId, input);
+  }
+  return result;
+}
+
+/**
+ * Registers tools to run stored workflows, resume paused human-approval steps and inspect
+ * executions. Step progress is reported through MCP progress notifications, and approvals
+ * are requested through elicitation when the client supports it.
+ */
+function registerWorkflowTools(mcpServer: McpServer, workflowService: IWorkflowApplication) {
+  mcpServer.registerTool(
+    'run_workflow',
+    {
+      description:
+        'Run a stored workflow. Human-approval steps are asked through elicitation when the ' +
+        'client supports it; otherwise the run pauses until resume_workflow is called.',
+      inputSchema: {
+        context: z.record(z.unknown()).optional(),
+        id: z.string().min(1),
+        version: z.number().int().positive().optional(),
+      },
+    },
+    ({ context, id, version }, extra) =>
+      runTool(async () => {
+        const definition = loadWorkflowFromFile(id, version);
+        if (!definition) {
+          throw new NotFoundError(`Workflow not found: ${id}${version ? ` v${version}` : ''}`);
+        }
+        const parsed = workflowSchema.safeParse(definition);
+        if (!parsed.success) {
+          throw new ValidationError(`Invalid workflow: ${id}`, parsed.error.errors);
+        }
+        const executionId = randomUUID();
+        const stopForwarding = forwardWorkflowProgress(executionId, extra);
+        try {
+          const result = await workflowService.runWorkflow(parsed.data, context, executionId);
+          return {
+            ...(await resolveApprovals(mcpServer, workflowService, executionId, result, extra)),
+            executionId,
+          };
+        } finally {
+          stopForwarding();
+        }
+      }),
+  );
+
+  mcpServer.registerTool(
+    'resume_workflow',
+    {
+      description: 'Resume a workflow execution paused at a human-approval step.',
+      inputSchema: {
+        executionId: z.string().min(1),
+        input: z.unknown().describe('The human input, stored under the step output key'),
+      },
+    },
+    ({ executionId, input }, extra) =>
+      runTool(async () => {
+        if (!(await workflowService.getWorkflowState(executionId))) {
+          throw new NotFoundError(`Workflow execution not found: ${executionId}`);
+        }
+        const stopForwarding = forwardWorkflowProgress(executionId, extra);
+        try {
+          const result = await workflowService.resumeWorkflow(executionId, input);
+          return {
+            ...(await resolveApprovals(mcpServer, workflowService, executionId, result, extra)),
+            executionId,
+          };
+        } finally {
+          stopForwarding();
+        }
+      }),
+  );
+
+  mcpServer.registerTool(
+    'get_workflow_state',
+    {
+      description: 'Get the state, context and step history of a workflow execution.',
+      inputSchema: { executionId: z.string().min(1) },
+    },
+    ({ executionId }) =>
+      runTool(async () => {
+        const state = await workflowService.getWorkflowState(executionId);
+        if (!state) {
+          throw new NotFoundError(`Workflow execution not found: ${executionId}`);
+        }
+        return state;
+      }),
+  );
+}
+
+/**
+ * Connects the MCP server to stdin/stdout so local clients (e.g. Claude Desktop) can spawn it.
+ * Nothing else may write to stdout while this transport is active.
+ * @param mcpServer The server to connect
+ */
+export async function startStdioTransport(mcpServer: McpServer): Promise<StdioServerTransport> {
+  const transport = new StdioServerTransport();
+  await mcpServer.connect(transport);
+  return transport;
+}
+
+/**
+ * Keeps the most recent messages sent on Streamable HTTP streams so a client that reconnects
+ * with Last-Event-ID receives what it missed.
+ */
+class InMemoryEventStore implements EventStore {
+  private events = new Map<string, { streamId: string; message: JSONRPCMessage }>();
+  private counter = 0;
+
+  public constructor(private maxEvents = 1000) {}
+
+  public async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${++this.counter}`;
+    this.events.set(eventId, { message, streamId });
+    if (this.events.size > this.maxEvents) {
+      // Maps iterate in insertion order, so the first key is the oldest event
+      this.events.delete(this.events.keys().next().value as string);
+    }
+    return eventId;
+  }
+
+  public async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return '';
+    }
+    let found = false;
+    for (const [eventId, { message, streamId }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return last.streamId;
+  }
+}
+
+export interface StreamableHttpHandler {
+  (req: IncomingMessage & { body?: unknown }, res: ServerResponse): Promise<void>;
+  /** Closes every open session */
+  close(): Promise<void>;
+}
+
+export interface StreamableHttpOptions {
+  /** Milliseconds a session without open requests is kept (default 30 minutes) */
+  idleTimeoutMs?: number;
+  /** Most sessions open at once; new sessions are refused beyond it (default 100) */
+  maxSessions?: number;
+}
+
+interface StreamableHttpSession {
+  transport: StreamableHTTPServerTransport;
+  /** Requests of the session still open, such as a GET stream */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Creates a request handler for the MCP Streamable HTTP transport (POST, GET and DELETE on
+ * one endpoint). Each session gets its own transport and server from `createServer`, because
+ * an SDK server is bound to a single transport; all of them share the same services.
+ * Messages are kept in an event store so clients can resume a stream with Last-Event-ID.
+ * A session is closed once it has had no open request for the idle timeout.
+ * @param createServer Builds the MCP server for a new session
+ * @param options Idle timeout and session limit
+ */
+export function createStreamableHttpHandler(
+  createServer: () => McpServer,
+  { idleTimeoutMs = 30 * 60 * 1000, maxSessions = 100 }: StreamableHttpOptions = {},
+): StreamableHttpHandler {
+  const sessions = new Map<string, StreamableHttpSession>();
+  const eventStore = new InMemoryEventStore();
+
+  const sendError = (res: ServerResponse, status: number, message: string) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        error: { code: ErrorCode.InvalidRequest, message },
+        id: null,
+        jsonrpc: '2.0',
+      }),
+    );
+  };
+
+  /** Counts a request against the session and restarts its idle timer once none is open */
+  const trackRequest = (session: StreamableHttpSession, res: ServerResponse) => {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      if (session.openRequests === 0 && session.transport.sessionId) {
+        session.idleTimer = setTimeout(() => void session.transport.close(), idleTimeoutMs);
+        session.idleTimer.unref();
+      }
+    });
+  };
+
+  const handler = async (req: IncomingMessage & { body?: unknown }, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res, req.body);
+      return;
+    }
+    if (sessionId !== undefined) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    if (sessions.size >= maxSessions) {
+      sendError(res, 503, 'Too many open sessions, try again later');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      eventStore,
+      onsessioninitialized: id => {
+        const session: StreamableHttpSession = { openRequests: 0, transport };
+        sessions.set(id, session);
+        trackRequest(session, res);
+      },
+      sessionIdGenerator: () => randomUUID(),
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  };
+
+  return Object.assign(handler, {
+    close: async () => {
+      await Promise.all(Array.from(sessions.values()).map(({ transport }) => transport.close()));
+      sessions.clear();
+    },
+  });
+}
@@ -0,0 +1,214 @@
+import { Ajv, type ErrorObject } from 'ajv';
+import addFormats from 'ajv-formats';
+
+import { ValidationError } from './errors.js';
+import type { OutputSchemaError, OutputValidationResult } from './interfaces.js';
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+
+/** The closing bracket of each opening bracket */
+const CLOSERS: Record<string, string> = { '[': ']', '{': '}' };
+
+/** Python literals models write in place of JSON ones */
+const PYTHON_LITERALS: Record<string, string> = { False: 'false', None: 'null', True: 'true' };
+
+/** Splits a JSON pointer such as /items/0/name into its segments */
+function pointerPath(pointer: string): Array<string | number> {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/** The errors of the last ajv validation, with the property they are about in the path */
+function schemaErrors(errors: ErrorObject[] | null | undefined): OutputSchemaError[] {
+  return (errors ?? []).map(error => {
+    const params = error.params as { additionalProperty?: string; missingProperty?: string };
+    const property = params.missingProperty ?? params.additionalProperty;
+    return {
+      keyword: error.keyword,
+      message: error.message ?? `must pass ${error.keyword}`,
+      path: [...pointerPath(error.instancePath), ...(property !== undefined ? [property] : [])],
+    };
+  });
+}
+
+/**
+ * Checks that a prompt's output schema is a valid JSON Schema.
+ * @throws ValidationError listing what is wrong with the schema
+ */
+export function assertValidOutputSchema(schema: Record<string, unknown>): void {
+  let valid: boolean;
+  try {
+    valid = ajv.validateSchema(schema) as boolean;
+    if (valid) {
+      ajv.compile(schema);
+    }
+  } catch (error) {
+    const message = `Invalid output schema: ${(error as Error).message}`;
+    throw new ValidationError(message, [{ message, path: ['outputSchema'] }]);
+  }
+  if (!valid) {
+    const details = schemaErrors(ajv.errors).map(error => ({
+      ...error,
+      path: ['outputSchema', ...error.path],
+    }));
+    throw new ValidationError(
+      `Invalid output schema: ${ajv.errorsText(ajv.errors, { dataVar: 'outputSchema' })}`,
+      details,
+    );
+  }
+}
+
+/**
+ * Rewrites the JSON-like syntax models produce into JSON: single-quoted strings, unquoted keys,
+ * Python literals, trailing commas and output cut off before its strings and brackets close.
+ * @param repairs Receives a description of each kind of repair made
+ */
+function repairSyntax(text: string, repairs: Set<string>): string {
+  const stack: string[] = [];
+  let out = '';
+  const dropTrailingComma = () => {
+    const trimmed = out.trimEnd();
+    if (trimmed.endsWith(',')) {
+      out = trimmed.slice(0, -1);
+      repairs.add('Removed trailing commas');
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      for (; j < text.length && text[j] !== char; j++) {
+        if (text[j] === '\\' && j + 1 < text.length) {
+          // \' is not a JSON escape, and a quote inside a single-quoted string needs one
+          value += char === "'" && text[j + 1] === "'" ? "'" : text[j] + text[j + 1];
+          j++;
+        } else {
+          value += char === "'" && text[j] === '"' ? '\\"' : text[j];
+        }
+      }
+      if (char === "'") {
+        repairs.add('Replaced single quotes with double quotes');
+      }
+      if (j >= text.length) {
+        repairs.add('Closed an unterminated string');
+      }
+      out += `"${value}"`;
+      i = j + 1;
+    } else if (CLOSERS[char]) {
+      stack.push(CLOSERS[char]);
+      out += char;
+      i++;
+    } else if (char === '}' || char === ']') {
+      dropTrailingComma();
+      if (stack[stack.length - 1] === char) {
+        stack.pop();
+      }
+      out += char;
+      i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = /^[\w$]+/.exec(text.slice(i))![0];
+      i += word.length;
+      if (stack[stack.length - 1] === '}' && /^\s*:/.test(text.slice(i))) {
+        out += JSON.stringify(word);
+        repairs.add('Quoted object keys');
+      } else if (PYTHON_LITERALS[word]) {
+        out += PYTHON_LITERALS[word];
+        repairs.add('Replaced Python literals');
+      } else {
+        out += word;
+      }
+    } else {
+      out += char;
+      i++;
+    }
+  }
+
+  dropTrailingComma();
+  if (stack.length > 0) {
+    out += stack.reverse().join('');
+    repairs.add('Closed unclosed brackets');
+  }
+  return out;
+}
+
+/**
+ * Parses a model response as JSON, repairing it where it can: a Markdown code fence or prose
+ * around the JSON is dropped, then the syntax is repaired if it still does not parse.
+ * @returns The parsed value, or the error of the last attempt to parse it
+ */
+export function parseModelOutput(
+  text: string,
+): { value: unknown; repairs: string[] } | { error: string; repairs: string[] } {
+  const repairs = new Set<string>();
+  let json = text.trim();
+  const tryParse = (): { value: unknown } | { error: string } => {
+    try {
+      return { value: JSON.parse(json) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  };
+
+  const fence = /```[\w-]*[^\S\n]*\n([\s\S]*?)(?:```|$)/.exec(json);
+  if (fence) {
+    json = fence[1].trim();
+    repairs.add('Removed the Markdown code fence');
+  }
+  let parsed = tryParse();
+
+  if ('error' in parsed) {
+    const start = json.search(/[[{]/);
+    if (start === -1) {
+      return { error: 'The response contains no JSON object or array', repairs: [...repairs] };
+    }
+    const end = json.lastIndexOf(CLOSERS[json[start]]);
+    const extracted = json.slice(start, end > start ? end + 1 : undefined);
+    if (extracted !== json) {
+      json = extracted;
+      repairs.add('Removed text around the JSON');
+      parsed = tryParse();
+    }
+  }
+
+  if ('error' in parsed) {
+    json = repairSyntax(json, repairs);
+    const repaired = tryParse();
+    parsed = 'error' in repaired ? parsed : repaired;
+  }
+  return { ...parsed, repairs: [...repairs] };
+}
+
+/**
+ * Checks a model response against an output schema. Text is parsed with parseModelOutput;
+ * any other value is taken to be parsed already.
+ */
+export function validateOutput(
+  schema: Record<string, unknown>,
+  output: unknown,
+): OutputValidationResult {
+  const parsed =
+    typeof output === 'string' ? parseModelOutput(output) : { repairs: [], value: output };
+  if ('error' in parsed) {
+    return {
+      errors: [{ keyword: 'json', message: `Invalid JSON: ${parsed.error}`, path: [] }],
+      repairs: parsed.repairs,
+      valid: false,
+    };
+  }
+
+  const validate = ajv.compile(schema);
+  const valid = validate(parsed.value) as boolean;
+  return {
+    errors: schemaErrors(validate.errors),
+    output: parsed.value,
+    repairs: parsed.repairs,
+    valid,
+  };
+}
@@ -1,55 +1,197 @@
-import Handlebars from 'handlebars';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import type {
-  StorageAdapter,
   ApplyTemplateResult,
-  Prompt,
-} from './types/manual-exports.js';
-import { promptSchemas } from './types/manual-exports.js';
-
-import type {
   CreatePromptParams,
+  EscapingMode,
+  ICache,
   ListPromptsOptions,
+  McpPromptContent,
+  OutputValidationResult,
+  PartialDependency,
+  Prompt,
+  PromptChangeListener,
+  PromptContentPart,
+  PromptMessage,
+  TemplateAnalysis,
+  TemplateLintInput,
+  TemplateLintIssue,
+  TemplateLintResult,
   TemplateVariable,
   UpdatePromptParams,
   TemplateFormatOptions,
   IPromptRepository,
   IPromptApplication,
   ITemplatingEngine,
+  ITokenizer,
+  PromptTranslation,
+  PromptTranslationInput,
+  TokenUsage,
 } from './interfaces.js';
+import { MemoryCache } from './cache.js';
 import * as Prompts from './prompts.js';
 import { DuplicateError, AppError, HttpErrorCode, ValidationError, NotFoundError } from './errors.js';
-import { getRedisClient, jsonFriendlyErrorReplacer, templateHelpers } from './utils.js';
+import { ESCAPERS } from './escaping.js';
+import { canonicalLocale, localizationStatus, localizePrompt, sourceHash } from './locales.js';
+import { assertValidOutputSchema, validateOutput } from './output-validation.js';
+import { findTemplateTags } from './template-analysis.js';
+import { builtInTemplatingEngines, defaultTemplatingEngine } from './template-engines.js';
+import {
+  ApproximateTokenizer,
+  builtInTokenizer,
+  DEFAULT_TOKENIZER,
+  truncateText,
+} from './tokenizers.js';
+import { jsonFriendlyErrorReplacer } from './utils.js';
 import { config } from './config.js';
 
-function validateTemplateVariables(prompt: Pick<Prompt, 'content' | 'isTemplate' | 'variables'>) {
-  if (!prompt.isTemplate) {
-    if (prompt.variables && prompt.variables.length > 0) {
-      throw new ValidationError('Variables can only be defined for templates.', [
-        { path: ['variables'], message: 'Variables can only be defined for templates.' },
-      ]);
+/**
+ * Flatten chat messages into one transcript. Chat prompts store it as their content, so
+ * search, variable validation and consumers that only read content keep working.
+ */
+function messagesToContent(messages: PromptMessage[]): string {
+  return messages.map(message => `${message.role}: ${message.content}`).join('\n\n');
+}
+
+/**
+ * Key translations by canonical locale and note the source of new and changed ones.
+ * Unchanged translations keep the source they were made from.
+ * @throws ValidationError for invalid locales and translations without content
+ */
+function prepareTranslations(
+  translations: Record<string, PromptTranslationInput>,
+  source: Pick<Prompt, 'content' | 'messages' | 'version'>,
+  previous: Record<string, PromptTranslation> = {},
+): Record<string, PromptTranslation> {
+  const prepared: Record<string, PromptTranslation> = {};
+  for (const [tag, translation] of Object.entries(translations)) {
+    const locale = canonicalLocale(tag);
+    const messages = translation.messages?.length ? translation.messages : undefined;
+    const content = messages ? messagesToContent(messages) : (translation.content ?? '');
+    if (!content.trim()) {
+      const message = `Translation '${locale}' needs content or messages.`;
+      throw new ValidationError(message, [{ message, path: ['translations', tag, 'content'] }]);
     }
-    return;
+    const old = previous[locale];
+    const unchanged =
+      old?.content === content && JSON.stringify(old.messages) === JSON.stringify(messages);
+    prepared[locale] = {
+      content,
+      ...(translation.description !== undefined && { description: translation.description }),
+      ...(messages && { messages }),
+      sourceHash: unchanged ? old.sourceHash : sourceHash(source),
+      sourceVersion: unchanged ? old.sourceVersion : source.version,
+    };
   }
+  return prepared;
+}
 
-  const templateVariables = new Set(
-    (prompt.content.match(/{{(.*?)}}/g) || []).map((v: string) => v.replace(/{{|}}/g, '').trim()),
-  );
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  '0': false,
+  '1': true,
+  false: false,
+  true: true,
+};
 
-  const declaredVariables = new Set(prompt.variables?.map((v: string | { name: string }) => (typeof v === 'string' ? v : v.name)));
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
-  if (templateVariables.size !== declaredVariables.size) {
-    throw new ValidationError(
-      'The variables in the template content and the variables field do not match.',
-    );
+/**
+ * Coerce a value to a declared variable type. Strings are parsed, since MCP prompt arguments
+ * and query strings only carry strings. Untyped variables are left as they are.
+ * @returns The coerced value, or undefined if the value cannot be converted
+ */
+function coerceVariable(value: unknown, type: TemplateVariable['type']): unknown {
+  switch (type) {
+    case 'number': {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+    }
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? value
+        : BOOLEAN_STRINGS[String(value).trim().toLowerCase()];
+    case 'array':
+      if (typeof value === 'string') {
+        try {
+          const parsed = JSON.parse(value);
+          return Array.isArray(parsed) ? parsed : undefined;
+        } catch {
+          return value.split(',').map(item => item.trim()).filter(Boolean);
+        }
+      }
+      return Array.isArray(value) ? value : undefined;
+    case 'object':
+      if (typeof value === 'string') {
+        try {
+          const parsed = JSON.parse(value);
+          return isPlainObject(parsed) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+      }
+      return isPlainObject(value) ? value : undefined;
+    case 'string':
+      return ['string', 'number', 'boolean'].includes(typeof value) ? String(value) : undefined;
+    default:
+      return value;
   }
+}
 
-  for (const v of Array.from(templateVariables)) {
-    if (!declaredVariables.has(v)) {
-      throw new ValidationError(
-        `Variable '${v}' is used in the template but not declared in the variables field.`,
-      );
+/**
+ * Fill in defaults and coerce the values of declared template variables. Undeclared
+ * variables are passed through unchanged.
+ * @throws ValidationError listing every missing, unconvertible or disallowed value
+ */
+function resolveTemplateVariables(
+  prompt: Pick<Prompt, 'id' | 'variables'>,
+  variables: Record<string, unknown>,
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = { ...variables };
+  const details: Array<{ path: string[]; message: string }> = [];
+
+  for (const declared of prompt.variables ?? []) {
+    if (typeof declared === 'string') {
+      continue;
+    }
+    const { name, type, options } = declared;
+    const value = variables[name] ?? declared.default;
+    if (value === undefined || value === null) {
+      if (declared.required) {
+        details.push({ message: `Variable '${name}' is required.`, path: ['variables', name] });
+      }
+      delete resolved[name];
+      continue;
+    }
+
+    const coerced = coerceVariable(value, type);
+    if (coerced === undefined) {
+      details.push({
+        message: `Variable '${name}' must be of type ${type}.`,
+        path: ['variables', name],
+      });
+      continue;
+    }
+    if (options?.length) {
+      const values = Array.isArray(coerced) ? coerced : [coerced];
+      const disallowed = values.filter(v => !options.includes(String(v)));
+      if (disallowed.length) {
+        details.push({
+          message: `Variable '${name}' must be one of: ${options.join(', ')}.`,
+          path: ['variables', name],
+        });
+        continue;
+      }
     }
+    resolved[name] = coerced;
+  }
+
+  if (details.length) {
+    throw new ValidationError(`Invalid variables for template '${prompt.id}'.`, details);
   }
+  return resolved;
 }
 
 function sanitizePromptMetadata<T extends { metadata?: any }>(prompt: T): T {
@@ -59,23 +201,216 @@ function sanitizePromptMetadata<T extends { metadata?: any }>(prompt: T): T {
   return prompt;
 }
 
+/** MIME types of resource files by extension; anything else is sent as text/plain */
+const RESOURCE_MIME_TYPES: Record<string, string> = {
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'image/svg+xml';
+
+/**
+ * Read a file:// resource. Paths are resolved against PROMPT_RESOURCES_DIR, and anything that
+ * ends up outside of it (through .. or a symlink) is rejected.
+ */
+async function readResourceFile(
+  uri: string,
+): Promise<Extract<McpPromptContent, { type: 'resource' }>> {
+  const root = await fs.realpath(config.PROMPT_RESOURCES_DIR).catch(() => {
+    throw new NotFoundError(`Resources directory not found: ${config.PROMPT_RESOURCES_DIR}`);
+  });
+  const isInside = (candidate: string) => candidate.startsWith(root + path.sep);
+  const requested = path.resolve(root, decodeURIComponent(uri.slice('file://'.length)));
+  if (!isInside(requested)) {
+    throw new ValidationError(`Resource is outside the resources directory: ${uri}`);
+  }
+  const filePath = await fs.realpath(requested).catch(() => {
+    throw new NotFoundError(`Resource not found: ${uri}`);
+  });
+  if (!isInside(filePath)) {
+    throw new ValidationError(`Resource is outside the resources directory: ${uri}`);
+  }
+
+  const mimeType = RESOURCE_MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'text/plain';
+  const data = await fs.readFile(filePath);
+  return {
+    resource: isTextMimeType(mimeType)
+      ? { mimeType, text: data.toString('utf8'), uri }
+      : { blob: data.toString('base64'), mimeType, uri },
+    type: 'resource',
+  };
+}
+
+interface RenderedPrompt {
+  content: string;
+  messages?: PromptMessage[];
+  dependencies: PartialDependency[];
+}
+
+/**
+ * Cache keys. Ids are encoded, so the keys of one prompt never start with the keys of another.
+ */
+const promptPrefix = (id: string) => `prompt:${encodeURIComponent(id)}:`;
+const RENDER_PREFIX = 'render:';
+const renderPrefix = (id: string) => `${RENDER_PREFIX}${encodeURIComponent(id)}:`;
+const promptKey = (id: string, version: number | undefined) =>
+  promptPrefix(id) + (version ? `v${version}` : 'latest');
+const dependentsKey = (id: string) => `dependents:${encodeURIComponent(id)}`;
+
+/** JSON with the keys of every object sorted, so equal values hash alike */
+const stableStringify = (value: unknown) =>
+  JSON.stringify(value, (_key, nested) =>
+    isPlainObject(nested)
+      ? Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]))
+      : nested,
+  );
+
+/** A render of a prompt version, by a hash of its variables and options */
+function renderKey(
+  prompt: Prompt,
+  variables: Record<string, unknown>,
+  options?: TemplateFormatOptions,
+): string {
+  const hash = createHash('sha256')
+    .update(stableStringify({ options: options ?? {}, variables }))
+    .digest('hex');
+  return `${renderPrefix(prompt.id)}v${prompt.version}:${hash}`;
+}
+
+const MAX_REMEMBERED_VALUES = 20;
+const MAX_REMEMBERED_VALUE_LENGTH = 200;
+const MAX_COMPILED_TEMPLATES = 500;
+
+/**
+ * The values one client used for template variables, which completions suggest back to it.
+ * Each MCP server keeps its own, so one session never sees the values of another.
+ */
+export class VariableHistory {
+  /** Recently used values per prompt ID and variable name, most recent first */
+  private values = new Map<string, Map<string, string[]>>();
+
+  public record(promptId: string, variables: Record<string, unknown>): void {
+    let history = this.values.get(promptId);
+    if (!history) {
+      history = new Map();
+      this.values.set(promptId, history);
+    }
+    for (const [name, value] of Object.entries(variables)) {
+      if (typeof value !== 'string' || value === '' || value.length > MAX_REMEMBERED_VALUE_LENGTH) {
+        continue;
+      }
+      const values = (history.get(name) ?? []).filter(v => v !== value);
+      history.set(name, [value, ...values].slice(0, MAX_REMEMBERED_VALUES));
+    }
+  }
+
+  public get(promptId: string, variableName: string): string[] {
+    return this.values.get(promptId)?.get(variableName) ?? [];
+  }
+}
+
 export class PromptService implements IPromptApplication {
   private storage: IPromptRepository;
-  private templatingEngine: ITemplatingEngine;
-  private promptCache = new Map<string, Prompt>();
+  /** Template engines by name */
+  private templatingEngines = new Map<string, ITemplatingEngine>();
+  /** The engine of prompts that do not select one */
+  private defaultEngine: string;
+  /** Prompts and rendered templates, see promptKey and renderKey */
+  private cache: ICache;
+  /** Has a listener per MCP server, and Streamable HTTP creates a server per session */
+  private changeEvents = new EventEmitter().setMaxListeners(0);
+  /**
+   * Compiled templates by engine, options and a hash of the template, least recently used
+   * first. They hold no partials, so every render can combine them with its own. Keyed by
+   * content, they never go stale when another instance changes the prompt.
+   */
+  private compiledTemplates = new Map<string, unknown>();
+  /** Registered tokenizers by name */
+  private tokenizers = new Map<string, ITokenizer>();
 
-  public constructor(storage: IPromptRepository, templatingEngine: ITemplatingEngine) {
+  /**
+   * @param templatingEngine The engine of prompts that do not select one. The built-in
+   * handlebars, mustache and jinja engines are always available.
+   * @param cache Where prompts and rendered templates are cached, an in-process LRU by default
+   */
+  public constructor(
+    storage: IPromptRepository,
+    templatingEngine: ITemplatingEngine = defaultTemplatingEngine,
+    cache: ICache = new MemoryCache(),
+  ) {
     this.storage = storage;
-    this.templatingEngine = templatingEngine;
-    this.initializeTemplateEngine();
+    this.cache = cache;
+    for (const engine of builtInTemplatingEngines()) {
+      this.registerTemplatingEngine(engine);
+    }
+    this.registerTemplatingEngine(templatingEngine);
+    this.defaultEngine = templatingEngine.name;
   }
 
-  private initializeTemplateEngine() {
-    for (const key in templateHelpers) {
-      if (Object.prototype.hasOwnProperty.call(templateHelpers, key)) {
-        Handlebars.registerHelper(key, templateHelpers[key]);
-      }
+  /**
+   * Make an engine selectable by prompts, replacing any engine with the same name.
+   */
+  public registerTemplatingEngine(engine: ITemplatingEngine): void {
+    this.templatingEngines.set(engine.name, engine);
+  }
+
+  /**
+   * Make a tokenizer selectable by prompts, replacing any tokenizer with the same name.
+   */
+  public registerTokenizer(tokenizer: ITokenizer): void {
+    this.tokenizers.set(tokenizer.name, tokenizer);
+  }
+
+  /**
+   * A registered tokenizer, or a built-in one from TOKENIZERS_DIR, which counts
+   * approximately without its rank file
+   */
+  private async tokenizer(name: string): Promise<ITokenizer> {
+    return this.tokenizers.get(name) ?? builtInTokenizer(name, config.TOKENIZERS_DIR);
+  }
+
+  /**
+   * The name of the engine a prompt selects with its engine field or metadata.engine
+   */
+  private engineName(prompt: Pick<Prompt, 'engine' | 'metadata'>): string {
+    const fromMetadata = prompt.metadata?.engine;
+    return (
+      prompt.engine ?? (typeof fromMetadata === 'string' ? fromMetadata : this.defaultEngine)
+    );
+  }
+
+  /**
+   * @throws ValidationError if the prompt selects an engine that is not registered
+   */
+  private templatingEngine(prompt: Pick<Prompt, 'id' | 'engine' | 'metadata'>): ITemplatingEngine {
+    const name = this.engineName(prompt);
+    const engine = this.templatingEngines.get(name);
+    if (!engine) {
+      throw new ValidationError(`Unknown template engine '${name}' for prompt '${prompt.id}'.`, [
+        { message: `Unknown template engine '${name}'.`, path: ['engine'] },
+      ]);
     }
+    return engine;
+  }
+
+  /**
+   * Subscribe to prompt mutations. Every write path (REST, /rpc, MCP tools and the bulk
+   * operations) goes through createPrompt, updatePrompt or deletePrompt, which emit here.
+   * @returns A function that removes the listener
+   */
+  public onPromptChange(listener: PromptChangeListener): () => void {
+    this.changeEvents.on('change', listener);
+    return () => {
+      this.changeEvents.off('change', listener);
+    };
   }
 
   public async initialize() {
@@ -97,11 +432,20 @@ export class PromptService implements IPromptApplication {
    * If no ID is provided, a new one will be generated from the name.
    */
   public async createPrompt(promptData: CreatePromptParams): Promise<Prompt> {
+    const messages = promptData.messages?.length ? promptData.messages : undefined;
     const base: Omit<Prompt, 'metadata'> = {
       id: promptData.id ?? this.generateId(promptData.name),
       name: promptData.name,
-      content: promptData.content,
+      content: messages ? messagesToContent(messages) : (promptData.content ?? ''),
+      messages,
       isTemplate: Boolean(promptData.isTemplate),
+      engine: promptData.engine,
+      delimiterStyle: promptData.delimiterStyle,
+      escaping: promptData.escaping,
+      tokenizer: promptData.tokenizer,
+      tokenBudget: promptData.tokenBudget,
+      locale: promptData.locale ? canonicalLocale(promptData.locale) : undefined,
+      outputSchema: promptData.outputSchema,
       description: promptData.description,
       category: promptData.category,
       tags: promptData.tags,
@@ -110,18 +454,84 @@ export class PromptService implements IPromptApplication {
       updatedAt: new Date().toISOString(),
       version: 1
     };
-    const data: Prompt =
+    if (promptData.translations) {
+      base.translations = prepareTranslations(promptData.translations, base);
+    }
+    let data: Prompt =
       promptData.metadata !== null && promptData.metadata !== undefined
         ? { ...base, metadata: promptData.metadata }
         : base;
-    if (!data.name || !data.content) {
-      throw new Error('Name and content are required fields');
+    const missing = [
+      ...(!data.name ? [{ message: 'Name is required', path: ['name'] }] : []),
+      ...(!data.content
+        ? [{ message: 'Content or messages are required', path: ['content'] }]
+        : []),
+    ];
+    if (missing.length > 0) {
+      throw new ValidationError('Name and content (or messages) are required fields', missing);
     }
+    await this.assertValidTemplate(data);
+    if (data.outputSchema) {
+      assertValidOutputSchema(data.outputSchema);
+    }
+    data = await this.storeImages(data);
     const prompt = await this.storage.savePrompt(data);
     await this.invalidatePromptCache(prompt.id);
+    this.changeEvents.emit('change', { id: prompt.id, type: 'created', version: prompt.version });
     return sanitizePromptMetadata(prompt);
   }
 
+  /**
+   * Move the base64 images of messages and their translations into storage, leaving
+   * references to them, so prompt records do not carry image data. Called once a prompt is
+   * valid, so rejected prompts leave no assets behind.
+   */
+  private async storeImages<
+    T extends {
+      messages?: PromptMessage[] | null;
+      translations?: Record<string, PromptTranslationInput> | null;
+    },
+  >(data: T): Promise<T> {
+    const store = (messages: PromptMessage[]) =>
+      Promise.all(
+        messages.map(async message =>
+          message.parts
+            ? { ...message, parts: await Promise.all(message.parts.map(this.storeImage, this)) }
+            : message,
+        ),
+      );
+    const translations =
+      data.translations &&
+      Object.fromEntries(
+        await Promise.all(
+          Object.entries(data.translations).map(async ([locale, translation]) => [
+            locale,
+            translation.messages
+              ? { ...translation, messages: await store(translation.messages) }
+              : translation,
+          ]),
+        ),
+      );
+    return {
+      ...data,
+      ...(data.messages && { messages: await store(data.messages) }),
+      ...(translations && { translations }),
+    };
+  }
+
+  /**
+   * Save an image given as base64 data as an asset named by its SHA-256.
+   */
+  private async storeImage(part: PromptContentPart): Promise<PromptContentPart> {
+    if (part.type !== 'image' || !('data' in part)) {
+      return part;
+    }
+    const data = Buffer.from(part.data, 'base64');
+    const asset = createHash('sha256').update(data).digest('hex');
+    await this.storage.saveAsset(asset, data);
+    return { asset, mimeType: part.mimeType, type: 'image' };
+  }
+
   private generateId(name: string): string {
     return name
       .toLowerCase()
@@ -133,21 +543,22 @@ export class PromptService implements IPromptApplication {
   /**
    * Get a prompt by ID. If version is not specified, gets the latest version.
    * Caches prompts for performance.
+   * @param locale The locale to return the prompt in, see localizePrompt
    */
-  public async getPrompt(id: string, version?: number): Promise<Prompt | null> {
-    const cacheKey = version ? `${id}:v${version}` : `${id}:latest`;
-    if (this.promptCache.has(cacheKey)) {
-      return sanitizePromptMetadata(this.promptCache.get(cacheKey)!);
+  public async getPrompt(id: string, version?: number, locale?: string): Promise<Prompt | null> {
+    const cached = await this.cache.get<Prompt>(promptKey(id, version));
+    if (cached) {
+      return sanitizePromptMetadata(localizePrompt(cached, locale));
     }
 
     const prompt = await this.storage.getPrompt(id, version);
     if (prompt) {
-      this.promptCache.set(cacheKey, prompt);
+      await this.cache.set(promptKey(id, version), prompt);
       // If we fetched latest, also cache it with its specific version number
       if (!version) {
-        this.promptCache.set(`${id}:v${prompt.version}`, prompt);
+        await this.cache.set(promptKey(id, prompt.version), prompt);
       }
-      return sanitizePromptMetadata(prompt);
+      return sanitizePromptMetadata(localizePrompt(prompt, locale));
     }
     return null;
   }
@@ -168,13 +579,49 @@ export class PromptService implements IPromptApplication {
       throw new NotFoundError(`Prompt not found: ${id} v${version}`);
     }
 
-    const base: Omit<Prompt, 'metadata'> = {
+    // Chat prompts keep their content in sync with their messages; null drops the messages, as
+    // does new content without messages
+    const {
+      delimiterStyle,
+      engine,
+      escaping,
+      locale,
+      messages: messageArgs,
+      outputSchema,
+      tags,
+      tokenBudget,
+      tokenizer,
+      translations,
+      variables,
+      ...changes
+    } = args;
+    const messages =
+      messageArgs === undefined && changes.content === undefined
+        ? existingPrompt.messages
+        : (messageArgs ?? undefined);
+    const base = {
       ...existingPrompt,
-      ...args,
+      ...changes,
+      ...(engine !== undefined && { engine: engine ?? undefined }),
+      ...(delimiterStyle !== undefined && { delimiterStyle: delimiterStyle ?? undefined }),
+      ...(escaping !== undefined && { escaping: escaping ?? undefined }),
+      ...(tokenizer !== undefined && { tokenizer: tokenizer ?? undefined }),
+      ...(tokenBudget !== undefined && { tokenBudget: tokenBudget ?? undefined }),
+      ...(locale !== undefined && { locale: locale ? canonicalLocale(locale) : undefined }),
+      ...(outputSchema !== undefined && { outputSchema: outputSchema ?? undefined }),
+      ...(tags !== undefined && { tags: tags ?? undefined }),
+      ...(variables !== undefined && { variables: variables ?? undefined }),
+      ...(messages ? { content: messagesToContent(messages) } : {}),
+      messages,
       id,
       version,
       updatedAt: new Date().toISOString(),
     };
+    if (translations !== undefined) {
+      base.translations = translations
+        ? prepareTranslations(translations, base, existingPrompt.translations)
+        : undefined;
+    }
     let updatedPromptData: Prompt;
     if ('metadata' in args && args.metadata !== null && args.metadata !== undefined) {
       updatedPromptData = { ...base, metadata: args.metadata };
@@ -183,14 +630,16 @@ export class PromptService implements IPromptApplication {
       updatedPromptData = rest as Prompt;
     }
 
-    validateTemplateVariables({
-      content: updatedPromptData.content,
-      isTemplate: updatedPromptData.isTemplate ?? false,
-      variables: updatedPromptData.variables ?? [],
-    });
+    await this.assertValidTemplate(updatedPromptData);
+    if (updatedPromptData.outputSchema) {
+      assertValidOutputSchema(updatedPromptData.outputSchema);
+    }
+    updatedPromptData = await this.storeImages(updatedPromptData);
 
     const result = await this.storage.updatePrompt(id, version, updatedPromptData);
     await this.invalidatePromptCache(id);
+    // Storage with immutable versions, such as Postgres, stores the changes as a new version
+    this.changeEvents.emit('change', { id, type: 'updated', version: result.version });
     return sanitizePromptMetadata(result);
   }
 
@@ -201,6 +650,7 @@ export class PromptService implements IPromptApplication {
     const deleted = await this.storage.deletePrompt(id, version);
     if (deleted) {
       await this.invalidatePromptCache(id);
+      this.changeEvents.emit('change', { id, type: 'deleted', version });
     }
     return deleted;
   }
@@ -210,7 +660,13 @@ export class PromptService implements IPromptApplication {
    */
   public async listPrompts(args: ListPromptsOptions, allVersions = false): Promise<Prompt[]> {
     const prompts = await this.storage.listPrompts(args, allVersions);
-    return prompts.map(sanitizePromptMetadata);
+    return prompts.map(prompt =>
+      sanitizePromptMetadata(
+        prompt.locale || prompt.translations
+          ? { ...prompt, localization: localizationStatus(prompt) }
+          : prompt,
+      ),
+    );
   }
 
   /**
@@ -220,8 +676,175 @@ export class PromptService implements IPromptApplication {
     return this.storage.listPromptVersions(id);
   }
 
+  /**
+   * Statically check a template: its syntax, variables against the declared ones, helpers,
+   * and the partials it includes, following them to find missing or cyclic ones.
+   */
+  public async lintPrompt(prompt: TemplateLintInput): Promise<TemplateLintResult> {
+    const issues: TemplateLintIssue[] = [];
+    const result = (analysis?: Omit<TemplateAnalysis, 'unknownHelpers'>): TemplateLintResult => ({
+      helpers: analysis?.helpers ?? [],
+      issues,
+      partials: analysis?.partials ?? [],
+      paths: analysis?.paths ?? [],
+      valid: !issues.some(issue => issue.severity === 'error'),
+      variables: analysis?.variables ?? [],
+    });
+    const declared = (prompt.variables ?? []).map((v: string | TemplateVariable) =>
+      typeof v === 'string' ? v : v.name,
+    );
+
+    if (!prompt.isTemplate) {
+      if (declared.length > 0) {
+        issues.push({
+          code: 'variables-not-allowed',
+          message: 'Variables can only be defined for templates.',
+          severity: 'error',
+        });
+      }
+      return result();
+    }
+
+    const templates = prompt.messages?.length
+      ? prompt.messages.map(message => message.content)
+      : [prompt.content ?? ''];
+    const engineName = this.engineName(prompt);
+    const engine = this.templatingEngines.get(engineName);
+    if (!engine) {
+      issues.push({
+        code: 'unknown-engine',
+        message: `Template engine '${engineName}' is not registered.`,
+        name: engineName,
+        severity: 'error',
+      });
+      return result();
+    }
+    let analysis: TemplateAnalysis;
+    try {
+      const analyses = templates.map(template =>
+        engine.analyze(template, { delimiterStyle: prompt.delimiterStyle }),
+      );
+      const merge = (key: keyof TemplateAnalysis) =>
+        Array.from(new Set(analyses.flatMap(a => a[key])));
+      analysis = {
+        helpers: merge('helpers'),
+        partials: merge('partials'),
+        paths: merge('paths'),
+        unknownHelpers: merge('unknownHelpers'),
+        variables: merge('variables'),
+      };
+    } catch (e: any) {
+      issues.push({ code: 'syntax-error', message: e.message, severity: 'error' });
+      return result();
+    }
+
+    for (const name of analysis.variables.filter(v => !declared.includes(v))) {
+      issues.push({
+        code: 'undeclared-variable',
+        message: `Variable '${name}' is used in the template but not declared.`,
+        name,
+        severity: 'error',
+      });
+    }
+    for (const name of declared.filter(v => !analysis.variables.includes(v))) {
+      issues.push({
+        code: 'unused-variable',
+        message: `Variable '${name}' is declared but not used in the template.`,
+        name,
+        severity: 'warning',
+      });
+    }
+    for (const name of analysis.unknownHelpers) {
+      issues.push({
+        code: 'unknown-helper',
+        message: `Helper '${name}' is not registered.`,
+        name,
+        severity: 'error',
+      });
+    }
+    await this.lintPartials(engine, analysis.partials, prompt.id ? [prompt.id] : [], issues);
+
+    return result(analysis);
+  }
+
+  /**
+   * Follows partial references depth-first, reporting missing partials and cycles.
+   * @param engine The engine of the root prompt, which renders its partials too
+   * @param callStack The references on the current path, starting with the root prompt ID
+   */
+  private async lintPartials(
+    engine: ITemplatingEngine,
+    references: string[],
+    callStack: string[],
+    issues: TemplateLintIssue[],
+  ): Promise<void> {
+    for (const reference of references) {
+      if (callStack.includes(reference)) {
+        issues.push({
+          code: 'cyclic-partial',
+          message: `Recursive partial detected: ${[...callStack, reference].join(' -> ')}`,
+          name: reference,
+          severity: 'error',
+        });
+        continue;
+      }
+      const [id, pin] = reference.split('@');
+      const partial = await this.resolvePartial(id, pin);
+      if (!partial) {
+        issues.push({
+          code: 'missing-partial',
+          message: `Partial prompt '${reference}' not found.`,
+          name: reference,
+          severity: 'warning',
+        });
+        continue;
+      }
+      let nested: string[];
+      try {
+        const options = { delimiterStyle: partial.delimiterStyle };
+        nested = engine.analyze(partial.content, options).partials;
+      } catch (e: any) {
+        issues.push({
+          code: 'syntax-error',
+          message: `Partial prompt '${reference}' is not valid ${engine.name}: ${e.message}`,
+          name: reference,
+          severity: 'error',
+        });
+        continue;
+      }
+      await this.lintPartials(engine, nested, [...callStack, reference], issues);
+    }
+  }
+
+  /**
+   * Lints a prompt before it is stored.
+   * @throws ValidationError listing every lint error
+   */
+  private async assertValidTemplate(
+    prompt: TemplateLintInput & Pick<Prompt, 'translations'>,
+  ): Promise<void> {
+    // Translations share the prompt's variables, so each is linted in place of its content
+    const variants = [
+      { content: prompt.content, messages: prompt.messages, prefix: '' },
+      ...Object.entries(prompt.translations ?? {}).map(([locale, translation]) => ({
+        content: translation.content,
+        messages: translation.messages,
+        prefix: `Translation '${locale}': `,
+      })),
+    ];
+    for (const { prefix, ...variant } of variants) {
+      const { issues, valid } = await this.lintPrompt({ ...prompt, ...variant });
+      if (!valid) {
+        const errors = issues.filter(issue => issue.severity === 'error');
+        throw new ValidationError(errors.map(issue => prefix + issue.message).join(' '), errors);
+      }
+    }
+  }
+
   /**
    * Apply a template prompt by ID and version (latest if not specified).
+   * Declared variables get their defaults and are coerced to their types first.
+   * @throws ValidationError listing every invalid variable
    */
   public async applyTemplate(
     id: string,
@@ -229,7 +852,7 @@ export class PromptService implements IPromptApplication {
     version?: number,
     options?: TemplateFormatOptions,
   ): Promise<ApplyTemplateResult> {
-    const prompt = await this.getPrompt(id, version);
+    const prompt = await this.getPrompt(id, version, options?.locale);
     if (!prompt) {
       throw new NotFoundError(`Template prompt not found: ${id} v${version ?? 'latest'}`);
     }
@@ -237,129 +860,410 @@ export class PromptService implements IPromptApplication {
       throw new Error(`Prompt is not a template: ${id}`);
     }
 
-    try {
-      // Recursively find and register partials, starting the call stack with the root prompt
-      await this.registerPartialsRecursive(prompt.content, new Set(), new Set([prompt.id]));
+    const key = renderKey(prompt, variables, options);
+    const cached = await this.cache.get<Omit<ApplyTemplateResult, 'originalPrompt'>>(key);
+    if (cached) {
+      return { ...cached, originalPrompt: prompt };
+    }
 
-      const content = this.processTemplate(prompt.content, variables, options);
+    const { appliedVariables, content, dependencies, messages, tokens } =
+      await this.renderWithinBudget(prompt, resolveTemplateVariables(prompt, variables), options);
 
-      // Check for any remaining template variables
-      const remaining = content.match(/{{[^}]+}}/g);
-      const missingVariables = remaining
-        ? remaining.map(v => v.replace(/{{|}}/g, '').trim())
-        : undefined;
+    // Check for any remaining template variables
+    const remaining = findTemplateTags(content, options?.delimiterStyle ?? prompt.delimiterStyle);
+    const missingVariables = remaining.length > 0 ? remaining : undefined;
 
-      return {
-        appliedVariables: variables,
-        content,
-        missingVariables,
-        originalPrompt: prompt,
-      };
-    } finally {
-      this.clearPartials();
+    const result = {
+      appliedVariables,
+      content,
+      dependencies,
+      ...(messages && { messages }),
+      missingVariables,
+      ...(tokens && { tokens }),
+      ...(options?.locale && { locale: prompt.locale }),
+    };
+    await this.cacheRender(key, prompt.id, result);
+    return { ...result, originalPrompt: prompt };
+  }
+
+  /**
+   * Cache a render, and note it under the partials it includes, whose changes must also
+   * invalidate it. The note is refreshed with every render, so it outlives them.
+   */
+  private async cacheRender(
+    key: string,
+    promptId: string,
+    rendered: Omit<ApplyTemplateResult, 'originalPrompt'>,
+  ): Promise<void> {
+    await this.cache.set(key, rendered);
+    for (const id of new Set(rendered.dependencies.map(dependency => dependency.id))) {
+      await this.cache.addToSet(dependentsKey(id), [promptId]);
     }
   }
 
   /**
-   * Clears all registered Handlebars partials to avoid pollution between calls.
+   * Render a template prompt and count its tokens. A prompt over its token budget either
+   * fails or has its longest variables shortened until it fits: those the budget names, or
+   * else those its templates use.
+   * @throws ValidationError if the prompt is over its budget and cannot be shortened
    */
-  private clearPartials() {
-    for (const partialName in Handlebars.partials) {
-      // istanbul ignore else
-      if (Object.prototype.hasOwnProperty.call(Handlebars.partials, partialName)) {
-        Handlebars.unregisterPartial(partialName);
+  private async renderWithinBudget(
+    prompt: Prompt,
+    variables: Record<string, any>,
+    options?: TemplateFormatOptions,
+  ): Promise<RenderedPrompt & { appliedVariables: Record<string, any>; tokens?: TokenUsage }> {
+    const name = prompt.tokenizer ?? DEFAULT_TOKENIZER;
+    const tokenizer = await this.tokenizer(name);
+    const budget = prompt.tokenBudget;
+
+    let rendered = await this.renderPrompt(prompt, variables, options);
+    const appliedVariables = { ...variables };
+    const truncated: Record<string, number> = {};
+    let count = tokenizer.encode(rendered.content).length;
+    let candidates: string[] | undefined;
+    while (budget && count > budget.maxTokens) {
+      const strategy = budget.strategy ?? 'error';
+      candidates ??= budget.variables ?? this.templateVariables(prompt, options);
+      const [longest] = candidates
+        .filter(variable => typeof appliedVariables[variable] === 'string')
+        .map(variable => ({ tokens: tokenizer.encode(appliedVariables[variable]), variable }))
+        .filter(candidate => candidate.tokens.length > 0)
+        .sort((a, b) => b.tokens.length - a.tokens.length);
+      if (strategy === 'error' || !longest) {
+        const message =
+          `Prompt '${prompt.id}' renders to ${count} tokens, ` +
+          `over its budget of ${budget.maxTokens}.`;
+        throw new ValidationError(message, [{ message, path: ['tokenBudget', 'maxTokens'] }]);
       }
+      // Shorten the longest variable by the overflow; variables used more than once, or
+      // escaped, can need further rounds
+      const removed = Math.min(count - budget.maxTokens, longest.tokens.length);
+      appliedVariables[longest.variable] = truncateText(
+        tokenizer,
+        appliedVariables[longest.variable],
+        longest.tokens.length - removed,
+        strategy,
+      );
+      truncated[longest.variable] = (truncated[longest.variable] ?? 0) + removed;
+      rendered = await this.renderPrompt(prompt, appliedVariables, options);
+      count = tokenizer.encode(rendered.content).length;
     }
+    return {
+      ...rendered,
+      appliedVariables,
+      tokens: {
+        count,
+        tokenizer: tokenizer.name,
+        ...(tokenizer instanceof ApproximateTokenizer && { approximate: true }),
+        ...(Object.keys(truncated).length > 0 && { truncated }),
+      },
+    };
   }
 
   /**
-   * Recursively finds and registers partials, detecting cycles.
-   * @param templateContent The content to scan.
-   * @param registeredPartials A set of already registered partials to avoid re-registering.
-   * @param callStack A set representing the current recursion path to detect cycles.
+   * The top-level variables the templates of a prompt use, leaving out its partials.
    */
-  private async registerPartialsRecursive(
-    templateContent: string,
-    registeredPartials: Set<string>,
-    callStack: Set<string>
-  ): Promise<void> {
-    const partialRegex = /{{\s*>\s*([\w-]+)\s*}}/g;
-    let match;
+  private templateVariables(prompt: Prompt, options?: TemplateFormatOptions): string[] {
+    const engine = this.templatingEngine(prompt);
+    const delimiterStyle = options?.delimiterStyle ?? prompt.delimiterStyle;
+    const templates = prompt.messages?.length
+      ? prompt.messages.map(message => message.content)
+      : [prompt.content];
+    return Array.from(
+      new Set(templates.flatMap(template => engine.analyze(template, { delimiterStyle }).variables)),
+    );
+  }
+
+  /**
+   * Render a template prompt with its partials and layouts. Chat prompts render each message
+   * on its own and share the partials referenced from any of them.
+   */
+  private async renderPrompt(
+    prompt: Prompt,
+    variables: Record<string, any>,
+    options?: TemplateFormatOptions,
+  ): Promise<RenderedPrompt> {
+    const engine = this.templatingEngine(prompt);
+    const formatOptions = {
+      ...options,
+      delimiterStyle: options?.delimiterStyle ?? prompt.delimiterStyle,
+      escaping: options?.escaping ?? prompt.escaping,
+    };
+    const { escaping } = formatOptions;
+    if (escaping && !Object.prototype.hasOwnProperty.call(ESCAPERS, escaping)) {
+      throw new ValidationError(`Unknown escaping '${escaping}' for prompt '${prompt.id}'.`, [
+        { message: `Unknown escaping '${escaping}'.`, path: ['escaping'] },
+      ]);
+    }
+    const templates = prompt.messages?.length
+      ? prompt.messages.map(message => message.content)
+      : [prompt.content];
+    const partials: Record<string, unknown> = {};
+    const dependencies: PartialDependency[] = [];
+    // Recursively resolve partials and layouts, starting the call stack with the root prompt.
+    // Partials are rendered in the locale requested, or else in the prompt's
+    await this.resolvePartialsRecursive(
+      engine,
+      Array.from(
+        new Set(
+          templates.flatMap(template => this.templateReferences(engine, template, formatOptions)),
+        ),
+      ),
+      partials,
+      new Set([prompt.id]),
+      dependencies,
+      { escaping: formatOptions.escaping, locale: options?.locale ?? prompt.locale },
+    );
 
-    // Create a list of unique partials to fetch from this template
-    const partialsToScan = new Set<string>();
-    while ((match = partialRegex.exec(templateContent)) !== null) {
-      partialsToScan.add(match[1]);
+    const render = (template: string) =>
+      this.processTemplate(engine, template, variables, partials, formatOptions);
+    if (!prompt.messages?.length) {
+      return { content: render(prompt.content), dependencies };
     }
+    const messages = prompt.messages.map(message => ({
+      ...message,
+      content: render(message.content),
+    }));
+    return { content: messagesToContent(messages), dependencies, messages };
+  }
 
-    for (const partialId of partialsToScan) {
-      if (callStack.has(partialId)) {
-        throw new Error(`Recursive partial detected: ${Array.from(callStack).join(' -> ')} -> ${partialId}`);
+  /**
+   * Loads the prompt a partial reference points to.
+   * @param pin A version number or a release label from the prompt's metadata.labels
+   */
+  private async resolvePartial(id: string, pin?: string): Promise<Prompt | null> {
+    if (!pin) {
+      return this.getPrompt(id);
+    }
+    if (/^\d+$/.test(pin)) {
+      return this.getPrompt(id, Number(pin));
+    }
+    const versions = (await this.listPromptVersions(id)).sort((a, b) => b - a);
+    for (const version of versions) {
+      const candidate = await this.getPrompt(id, version);
+      const labels = candidate?.metadata?.labels;
+      if (Array.isArray(labels) && labels.includes(pin)) {
+        return candidate;
       }
+    }
+    return null;
+  }
 
-      // Only process if it hasn't been registered globally yet
-      if (!registeredPartials.has(partialId)) {
-        const partialPrompt = await this.getPrompt(partialId);
-        if (partialPrompt) {
-          Handlebars.registerPartial(partialId, partialPrompt.content);
-          registeredPartials.add(partialId);
-
-          // Add to call stack for this path and recurse
-          callStack.add(partialId);
-          await this.registerPartialsRecursive(partialPrompt.content, registeredPartials, callStack);
-          // Remove from call stack after returning from this path
-          callStack.delete(partialId);
-        } else {
-          console.warn(`Partial prompt with id '${partialId}' not found.`);
-          Handlebars.registerPartial(partialId, '');
-        }
+  /**
+   * The partials and layouts a template references, as written.
+   */
+  private templateReferences(
+    engine: ITemplatingEngine,
+    template: string,
+    options: TemplateFormatOptions,
+  ): string[] {
+    try {
+      return engine.analyze(template, options).partials;
+    } catch (e: any) {
+      throw new Error(`Template compilation failed: ${e.message}`);
+    }
+  }
+
+  /**
+   * Recursively resolves and compiles partials and layouts, detecting cycles. Layouts are
+   * resolved like partials, so an extends chain shares the cycle detection.
+   * @param engine The engine of the prompt being rendered, which renders its partials too.
+   * @param references The references to resolve.
+   * @param partials Collects the compiled partials by reference, null when not found.
+   * @param callStack A set representing the current recursion path to detect cycles.
+   * @param dependencies Collects the version every resolved partial resolved to.
+   * @param escaping The escaping of the prompt being rendered, which applies to its partials.
+   */
+  private async resolvePartialsRecursive(
+    engine: ITemplatingEngine,
+    references: string[],
+    partials: Record<string, unknown>,
+    callStack: Set<string>,
+    dependencies: PartialDependency[],
+    { escaping, locale }: { escaping?: EscapingMode; locale?: string },
+  ): Promise<void> {
+    for (const reference of references) {
+      if (callStack.has(reference)) {
+        throw new Error(
+          `Recursive partial detected: ${Array.from(callStack).join(' -> ')} -> ${reference}`,
+        );
+      }
+
+      // Only process if it hasn't been resolved for this render yet
+      if (reference in partials) {
+        continue;
+      }
+      const [id, pin] = reference.split('@');
+      const resolved = await this.resolvePartial(id, pin);
+      const partialPrompt = resolved && localizePrompt(resolved, locale);
+      if (!partialPrompt) {
+        console.warn(`Partial prompt '${reference}' not found.`);
+        partials[reference] = null;
+        continue;
       }
+      // Partials keep their own delimiter style, but render into the including prompt
+      const partialOptions = { delimiterStyle: partialPrompt.delimiterStyle, escaping };
+      partials[reference] = this.compileTemplate(engine, partialPrompt.content, partialOptions);
+      dependencies.push({ id: partialPrompt.id, reference, version: partialPrompt.version });
+
+      // Add to call stack for this path and recurse
+      callStack.add(reference);
+      await this.resolvePartialsRecursive(
+        engine,
+        this.templateReferences(engine, partialPrompt.content, partialOptions),
+        partials,
+        callStack,
+        dependencies,
+        { escaping, locale },
+      );
+      // Remove from call stack after returning from this path
+      callStack.delete(reference);
     }
   }
 
+  /**
+   * Suggest values for a template variable: its options, its default and values used before.
+   * @param id The prompt ID
+   * @param variableName The variable being filled in
+   * @param prefix What the user has typed so far (matched case-insensitively)
+   * @param history The values the client asking used before
+   */
+  public async completeTemplateVariable(
+    id: string,
+    variableName: string,
+    prefix = '',
+    history?: VariableHistory,
+  ): Promise<string[]> {
+    const prompt = await this.getPrompt(id);
+    if (!prompt?.isTemplate) {
+      return [];
+    }
+    const variable = prompt.variables
+      ?.map((v: string | TemplateVariable) => (typeof v === 'string' ? { name: v } : v))
+      .find((v: TemplateVariable) => v.name === variableName);
+    if (!variable) {
+      return [];
+    }
+
+    const candidates = [
+      ...(variable.options ?? []),
+      ...(variable.type === 'boolean' && !variable.options ? ['true', 'false'] : []),
+      ...(variable.default !== undefined ? [String(variable.default)] : []),
+      ...(history?.get(id, variableName) ?? []),
+    ];
+    const needle = prefix.toLowerCase();
+    return Array.from(new Set(candidates)).filter(v => v.toLowerCase().startsWith(needle));
+  }
+
+  /**
+   * Check a model response against the output schema of a prompt, repairing its JSON where
+   * it can. See validateOutput in output-validation.ts.
+   * @throws NotFoundError if the prompt does not exist
+   * @throws ValidationError if the prompt has no output schema
+   */
+  public async validateOutput(
+    id: string,
+    output: unknown,
+    version?: number,
+  ): Promise<OutputValidationResult> {
+    const prompt = await this.getPrompt(id, version);
+    if (!prompt) {
+      throw new NotFoundError(`Prompt not found: ${id}`);
+    }
+    if (!prompt.outputSchema) {
+      const message = `Prompt '${id}' has no output schema.`;
+      throw new ValidationError(message, [{ message, path: ['outputSchema'] }]);
+    }
+    return validateOutput(prompt.outputSchema, output);
+  }
+
   /**
    * Format a prompt according to the MCP prompts/get protocol
    * @param prompt The prompt to format
    * @param variables Optional variables to apply for templates
-   * @returns Formatted prompt for MCP protocol
+   * @returns Formatted prompt for MCP protocol. Each chat message becomes a text message
+   * followed by one message per image or embedded resource. A prompt's output schema is
+   * returned in _meta.
+   * @throws ValidationError if the prompt is over its token budget and cannot be shortened
    */
-  public formatMcpPrompt(
+  public async formatMcpPrompt(
     prompt: Prompt,
     variables?: Record<string, string>,
-  ): {
+  ): Promise<{
     description: string;
     messages: Array<{
-      role: string;
-      content: {
-        type: string;
-        text: string;
-      };
+      role: 'user' | 'assistant';
+      content: McpPromptContent;
     }>;
-  } {
+    _meta?: { outputSchema: Record<string, unknown> };
+  }> {
     // Apply template variables if provided and this is a template
-    let content = prompt.content;
+    let rendered: { content: string; messages?: PromptMessage[] } = prompt;
     if (prompt.isTemplate && variables) {
-      content = this.processTemplate(content, variables);
+      rendered = await this.renderWithinBudget(
+        prompt,
+        resolveTemplateVariables(prompt, variables),
+      );
+    }
+
+    const messages: Array<{ role: 'user' | 'assistant'; content: McpPromptContent }> = [];
+    for (const message of rendered.messages ?? [{ content: rendered.content, role: 'user' }]) {
+      // MCP prompt messages only support the user and assistant roles
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      if (message.content.trim() !== '') {
+        messages.push({ content: { text: message.content, type: 'text' }, role });
+      }
+      for (const part of message.parts ?? []) {
+        messages.push({ content: await this.resolveContentPart(part), role });
+      }
     }
 
     return {
       description: prompt.description || '',
-      messages: [
-        {
-          content: {
-            text: content,
-            type: 'text',
-          },
-          role: 'system',
-        },
-      ],
+      messages,
+      ...(prompt.outputSchema && { _meta: { outputSchema: prompt.outputSchema } }),
+    };
+  }
+
+  /**
+   * Turn a message part into MCP content, reading images and embedded prompts from storage.
+   * @throws NotFoundError if an image or embedded prompt is missing
+   */
+  private async resolveContentPart(part: PromptContentPart): Promise<McpPromptContent> {
+    if (part.type === 'image') {
+      // Prompts saved before images were kept as assets still hold their data
+      if ('data' in part) {
+        return { data: part.data, mimeType: part.mimeType, type: 'image' };
+      }
+      const data = await this.storage.getAsset(part.asset);
+      if (!data) {
+        throw new NotFoundError(`Image not found: ${part.asset}`);
+      }
+      return { data: data.toString('base64'), mimeType: part.mimeType, type: 'image' };
+    }
+    if (part.uri.startsWith('file://')) {
+      return readResourceFile(part.uri);
+    }
+
+    const match = /^prompt:\/\/([^/]+)(?:\/v(\d+))?$/.exec(part.uri);
+    const embedded = match
+      ? await this.getPrompt(decodeURIComponent(match[1]), match[2] ? Number(match[2]) : undefined)
+      : null;
+    if (!embedded) {
+      throw new NotFoundError(`Embedded prompt not found: ${part.uri}`);
+    }
+    return {
+      resource: { mimeType: 'text/plain', text: embedded.content, uri: part.uri },
+      type: 'resource',
     };
   }
 
   /**
    * Format a list of prompts according to the MCP prompts/list protocol
    * @param prompts Array of prompts to format
-   * @returns Formatted prompts list for MCP protocol
+   * @returns Formatted prompts list for MCP protocol. MCP arguments only have a name,
+   * description and required flag, so the type, options and default of each template variable
+   * that has them are returned in _meta.arguments.
    */
   public formatMcpPromptsList(prompts: Prompt[]): {
     prompts: Array<{
@@ -370,69 +1274,90 @@ export class PromptService implements IPromptApplication {
         description?: string;
         required?: boolean;
       }>;
+      _meta?: { arguments: Record<string, Pick<TemplateVariable, 'type' | 'options' | 'default'>> };
     }>;
   } {
     return {
       prompts: prompts.map(prompt => {
-        // For template prompts, extract variables information
-        const args =
+        const variables =
           prompt.isTemplate && prompt.variables?.length
-            ? prompt.variables.map((variable: any) => {
-                // Handle both string variables and complex variable objects
-                if (typeof variable === 'string') {
-                  return { name: variable };
-                } else {
-                  return {
-                    description: variable.description,
-                    name: variable.name,
-                    required: variable.required,
-                  };
-                }
-              })
+            ? prompt.variables.map((variable: string | TemplateVariable) =>
+                typeof variable === 'string' ? { name: variable } : variable,
+              )
             : undefined;
+        const args = variables?.map(({ description, name, required }) => ({
+          description,
+          name,
+          required,
+        }));
+        const details = Object.fromEntries(
+          (variables ?? [])
+            .filter(
+              variable =>
+                variable.type !== undefined ||
+                variable.options !== undefined ||
+                variable.default !== undefined,
+            )
+            .map(variable => [
+              variable.name,
+              { default: variable.default, options: variable.options, type: variable.type },
+            ]),
+        );
 
         return {
           description: prompt.description || '',
           name: prompt.id,
           ...(args && { arguments: args }),
+          ...(Object.keys(details).length > 0 && { _meta: { arguments: details } }),
         };
       }),
     };
   }
 
-  private processTemplate(template: string, variables: Record<string, any>, options?: TemplateFormatOptions): string {
-    try {
-      let delimiters: [string, string] | undefined;
-      if (options?.delimiterStyle) {
-        switch (options.delimiterStyle) {
-          case 'curly':
-            delimiters = ['{', '}'];
-            break;
-          case 'double_curly':
-            delimiters = ['{{', '}}'];
-            break;
-          case 'dollar':
-            delimiters = ['${', '}'];
-            break;
-          case 'percent':
-            delimiters = ['%{', '}'];
-            break;
-        }
+  /**
+   * Precompiles a template, or takes it from the cache.
+   */
+  private compileTemplate(
+    engine: ITemplatingEngine,
+    template: string,
+    options?: TemplateFormatOptions,
+  ): unknown {
+    const hash = createHash('sha256').update(template).digest('hex');
+    const cacheKey = [engine.name, options?.delimiterStyle, options?.escaping, hash]
+      .filter(Boolean)
+      .join('|');
+    let compiled = this.compiledTemplates.get(cacheKey);
+    if (compiled !== undefined) {
+      // Move to the end, so the least recently used template is evicted first
+      this.compiledTemplates.delete(cacheKey);
+    } else {
+      compiled = engine.compile(template, options);
+      if (this.compiledTemplates.size >= MAX_COMPILED_TEMPLATES) {
+        this.compiledTemplates.delete(this.compiledTemplates.keys().next().value!);
       }
-      const compiled = Handlebars.compile(template, {
-        strict: true,
-        preventIndent: true,
-        ...(delimiters ? { delimiters } : {}),
-      });
-      return compiled(variables);
+    }
+    this.compiledTemplates.set(cacheKey, compiled);
+    return compiled;
+  }
+
+  private processTemplate(
+    engine: ITemplatingEngine,
+    template: string,
+    variables: Record<string, any>,
+    partials: Record<string, unknown>,
+    options?: TemplateFormatOptions,
+  ): string {
+    try {
+      const compiled = this.compileTemplate(engine, template, options);
+      return engine.render(compiled, variables, partials);
     } catch (e: any) {
       throw new Error(`Template compilation failed: ${e.message}`);
     }
   }
 
   // Alias for interface compatibility
-  public async addPrompt(data: Partial<Prompt>): Promise<Prompt> {
-    const prompt = await this.createPrompt(data as CreatePromptParams);
+  public async addPrompt(data: CreatePromptParams): Promise<Prompt> {
+    const prompt = await this.createPrompt(data);
     return sanitizePromptMetadata(prompt);
   }
 
@@ -486,7 +1411,15 @@ export class PromptService implements IPromptApplication {
    * Invalidate prompt and prompt list caches after mutation.
    */
   private async invalidatePromptCache(id: string) {
-    this.promptCache.delete(id);
-    this.promptCache.delete(`${id}:latest`);
+    const dependents = await this.cache.getSet(dependentsKey(id));
+    await this.cache.invalidate([promptPrefix(id), ...[id, ...dependents].map(renderPrefix)]);
+  }
+
+  /**
+   * Drop the cached renders of every prompt, in every instance, such as after the helpers
+   * templates call have changed.
+   */
+  public async invalidateRenders(): Promise<void> {
+    await this.cache.invalidate([RENDER_PREFIX]);
   }
 }
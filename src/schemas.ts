@@ -9,6 +9,58 @@ const templateVariableSchema = z.object({
   options: z.array(z.string()).optional(),
 });
 
+const imageMimeTypeSchema = z
+  .string()
+  .regex(/^image\//, { message: 'Image MIME type must start with image/.' });
+
+/** Images are given as base64 data, and stored as an asset named by the SHA-256 of the data */
+const promptContentPartSchema = z.union([
+  z.object({
+    data: z.string().base64({ message: 'Image data must be base64 encoded.' }),
+    mimeType: imageMimeTypeSchema,
+    type: z.literal('image'),
+  }),
+  z.object({
+    asset: z.string().regex(/^[0-9a-f]{64}$/, { message: 'Image assets are SHA-256 hashes.' }),
+    mimeType: imageMimeTypeSchema,
+    type: z.literal('image'),
+  }),
+  z.object({
+    type: z.literal('resource'),
+    uri: z.string().regex(/^(prompt|file):\/\/.+/, {
+      message: 'Resource URI must use the prompt:// or file:// scheme.',
+    }),
+  }),
+]);
+
+const promptMessageSchema = z
+  .object({
+    content: z.string(),
+    parts: z.array(promptContentPartSchema).optional(),
+    role: z.enum(['system', 'user', 'assistant']),
+  })
+  .refine(message => message.content.trim() !== '' || message.parts?.length, {
+    message: 'A message needs content or parts.',
+    path: ['content'],
+  });
+
+/**
+ * A translation of a prompt. PromptService sets sourceVersion and sourceHash, which are only
+ * accepted so that stored prompts validate.
+ */
+const promptTranslationSchema = z
+  .object({
+    content: z.string().optional(),
+    description: z.string().trim().max(500).optional(),
+    messages: z.array(promptMessageSchema).min(1).optional(),
+    sourceHash: z.string().optional(),
+    sourceVersion: z.number().int().positive().optional(),
+  })
+  .refine(translation => translation.content?.trim() || translation.messages, {
+    message: 'A translation needs content or messages.',
+    path: ['content'],
+  });
+
 /**
  * Base schema for a prompt, containing all user-definable fields.
  * Server-generated fields like id, createdAt, and updatedAt are excluded.
@@ -23,7 +75,8 @@ const createPromptSchema = z
         required_error: 'Content is required.',
       })
       .trim()
-      .min(1, { message: 'Content cannot be empty or just whitespace.' }),
+      .min(1, { message: 'Content cannot be empty or just whitespace.' })
+      .optional(),
     description: z
       .string()
       .trim()
@@ -40,6 +93,28 @@ const createPromptSchema = z
       },
       z.boolean().default(false),
     ),
+    delimiterStyle: z.enum(['curly', 'double_curly', 'dollar', 'percent']).nullish(),
+    /** How variable values are escaped for the text around them */
+    escaping: z.enum(['none', 'json-string', 'xml', 'markdown-fence', 'html']).nullish(),
+    /** The most tokens the rendered prompt may take, and how to shorten it when over */
+    tokenBudget: z
+      .object({
+        maxTokens: z.number().int().positive(),
+        strategy: z.enum(['error', 'truncate-head', 'truncate-tail', 'middle-out']).optional(),
+        variables: z.array(z.string()).optional(),
+      })
+      .nullish(),
+    tokenizer: z.string().trim().min(1).nullish(),
+    /** The BCP-47 locale of content and messages */
+    locale: z.string().trim().min(1).nullish(),
+    /** The prompt in other locales, by BCP-47 locale */
+    translations: z.record(promptTranslationSchema).nullish(),
+    /** A JSON Schema for the model's response, checked by PromptService when stored */
+    outputSchema: z.record(z.unknown()).nullish(),
+    /** Template engine: handlebars (the default), mustache, jinja or a registered plugin */
+    engine: z.string().trim().min(1).nullish(),
+    /** Chat prompts give an ordered list of messages instead of content */
+    messages: z.array(promptMessageSchema).min(1).nullish(),
     metadata: z.record(z.unknown()).nullish(),
     name: z
       .string({
@@ -69,6 +144,7 @@ const createPromptSchema = z
  * This is used for validating prompts read from storage.
  */
 const fullPromptSchema = createPromptSchema.extend({
+  content: z.string().min(1),
   createdAt: z.string().datetime(),
   id: z.string().min(1),
   updatedAt: z.string().datetime(),
@@ -82,7 +158,10 @@ const fullPromptSchema = createPromptSchema.extend({
 export const promptSchemas = {
   applyTemplate: z.object({
     id: z.string(),
-    variables: z.record(z.string()),
+    /** The BCP-47 locale to render, such as cs-CZ, falling back to cs and the prompt itself */
+    locale: z.string().optional(),
+    // Values are coerced to the declared variable types by PromptService.applyTemplate
+    variables: z.record(z.unknown()),
   }),
 
   /**
@@ -126,6 +205,9 @@ export const promptSchemas = {
       },
       z.array(z.string()).optional(),
     ),
+    search: z.string().optional(),
+    limit: z.coerce.number().int().positive().optional(),
+    offset: z.coerce.number().int().nonnegative().optional(),
   }),
 
   /**
@@ -133,12 +215,37 @@ export const promptSchemas = {
    */
   update: createPromptSchema.partial(),
 
+  /**
+   * Schema for linting a template without storing it. The ID is only used to detect
+   * partials that include the prompt itself.
+   */
+  lint: createPromptSchema
+    .pick({
+      content: true,
+      delimiterStyle: true,
+      engine: true,
+      isTemplate: true,
+      messages: true,
+      metadata: true,
+      variables: true,
+    })
+    .extend({ id: z.string().optional() }),
+
   /**
    * Schema for bulk creating prompts. Accepts an array of createPromptSchema.
    */
   bulkCreate: z.array(createPromptSchema),
 
   bulkDelete: z.object({ ids: z.array(z.string().min(1)) }),
+
+  /**
+   * Schema for checking a model response against a prompt's output schema. Text responses
+   * are parsed as JSON; anything else is taken to be parsed already.
+   */
+  validateOutput: z.object({
+    output: z.unknown().refine(output => output !== undefined, 'Output is required.'),
+    version: z.number().int().positive().optional(),
+  }),
 };
 
 export type CreatePromptArgs = z.infer<typeof promptSchemas.create>;
@@ -146,6 +253,42 @@ export type UpdatePromptArgs = z.infer<typeof promptSchemas.update>;
 export type DeletePromptArgs = z.infer<typeof promptSchemas.delete>;
 export type ListPromptsArgs = z.infer<typeof promptSchemas.list>;
 
+const helperDefinitionBase = {
+  description: z.string().max(500).optional(),
+  /** Helpers are called as {{name value}}, so the name must be an identifier */
+  name: z.string().regex(/^[A-Za-z_]\w*$/, {
+    message: 'Helper names must start with a letter or _ and contain only letters, digits and _.',
+  }),
+};
+
+/**
+ * Schema for a declarative template helper: a regular expression replace, a lookup table or
+ * a string format
+ */
+export const helperDefinitionSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...helperDefinitionBase,
+    flags: z
+      .string()
+      .regex(/^[dgimsuy]*$/, { message: 'Unknown regular expression flag.' })
+      .optional(),
+    pattern: z.string().min(1),
+    replacement: z.string(),
+    type: z.literal('replace'),
+  }),
+  z.object({
+    ...helperDefinitionBase,
+    fallback: z.string().optional(),
+    table: z.record(z.string()),
+    type: z.literal('lookup'),
+  }),
+  z.object({
+    ...helperDefinitionBase,
+    format: z.string(),
+    type: z.literal('format'),
+  }),
+]);
+
 /**
  * Zod schema for Workflow definitions (MVP).
  *
@@ -215,6 +358,14 @@ export const workflowStepSchema: z.ZodTypeAny = z.lazy(() =>
       errorPolicy: z.string().optional(),
       id: z.string(),
       onFailure: z.string().optional(),
+      // Flat object schema for the reply, used when the approval is requested over MCP elicitation
+      inputSchema: z
+        .object({
+          properties: z.record(z.record(z.unknown())),
+          required: z.array(z.string()).optional(),
+          type: z.literal('object'),
+        })
+        .optional(),
       onSuccess: z.string().optional(),
       output: z.string().min(1),
       prompt: z.string(),
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import type { Prompt, PromptSequence } from './types/manual-exports.js';
 
@@ -39,6 +40,12 @@ export interface ISequenceApplication {
    */
   getSequence(id: string): Promise<PromptSequence | null>;
 
+  /**
+   * List all stored sequences
+   * @returns The sequences
+   */
+  listSequences(): Promise<PromptSequence[]>;
+
   /**
    * Execute a sequence by ID with variables
    * @param id The ID of the sequence
@@ -46,6 +53,12 @@ export interface ISequenceApplication {
    * @returns The result of execution
    */
   executeSequence(id: string, variables?: Record<string, any>): Promise<any>;
+
+  /**
+   * Call a listener with the ID of every sequence created, replaced or deleted
+   * @returns A function that removes the listener
+   */
+  onSequenceChange(listener: (id: string) => void): () => void;
 }
 
 /**
@@ -53,12 +66,14 @@ export interface ISequenceApplication {
  */
 export interface ISequenceRepository {
   getSequence(id: string): Promise<PromptSequence | null>;
+  listSequences(): Promise<PromptSequence[]>;
   saveSequence(sequence: PromptSequence): Promise<PromptSequence>;
   deleteSequence(id: string): Promise<void>;
 }
 
 export class SequenceApplication implements ISequenceApplication {
   private storage: ISequenceRepository;
+  private changeEvents = new EventEmitter().setMaxListeners(0);
 
   public constructor(storage: ISequenceRepository) {
     this.storage = storage;
@@ -102,21 +117,35 @@ export class SequenceApplication implements ISequenceApplication {
       updatedAt: now,
     };
 
-    return this.storage.saveSequence(newSequence);
+    const saved = await this.storage.saveSequence(newSequence);
+    this.changeEvents.emit('change', saved.id);
+    return saved;
   }
 
   public async deleteSequence(id: string): Promise<void> {
     await this.storage.deleteSequence(id);
+    this.changeEvents.emit('change', id);
   }
 
   public async getSequence(id: string): Promise<PromptSequence | null> {
     return this.storage.getSequence(id);
   }
 
+  public async listSequences(): Promise<PromptSequence[]> {
+    return this.storage.listSequences();
+  }
+
   public async executeSequence(id: string, variables?: Record<string, any>): Promise<any> {
     // Stub implementation: just return the sequence and variables for now
     const sequence = await this.getSequence(id);
     if (!sequence) throw new Error('Sequence not found');
     return { sequence, variables };
   }
+
+  public onSequenceChange(listener: (id: string) => void): () => void {
+    this.changeEvents.on('change', listener);
+    return () => {
+      this.changeEvents.off('change', listener);
+    };
+  }
 }
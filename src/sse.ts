@@ -603,6 +603,8 @@ export class SseManager extends EventEmitter {
    * @param message
    */
   public broadcast(message: any): void {
+    // In-process listeners (e.g. MCP progress notifications) receive every broadcast
+    this.emit('broadcast', message);
     const data = `data: ${JSON.stringify(message)}\n\n`;
     for (const client of this.clients.values()) {
       if (client.connected) {
@@ -0,0 +1,201 @@
+import Handlebars from 'handlebars';
+
+import type { DelimiterStyle, TemplateAnalysis } from './interfaces.js';
+
+/**
+ * Partial references: {{> id}} for the latest version, {{> id@3}} for version 3 and
+ * {{> id@stable}} for the newest version labelled stable.
+ */
+export const PARTIAL_REFERENCE = /{{\s*>\s*([\w-]+)(?:@([\w.-]+))?\s*}}/g;
+
+/**
+ * Handlebars does not allow @ in partial names, so pinned references are rewritten to the
+ * literal segment syntax: {{> header@3}} becomes {{> [header@3]}}.
+ */
+export const escapePinnedPartials = (template: string) =>
+  template.replace(PARTIAL_REFERENCE, (reference, id: string, pin?: string) =>
+    pin ? `{{> [${id}@${pin}]}}` : reference,
+  );
+
+/**
+ * Tags in the custom delimiter styles. A tag must start like a Handlebars expression, so
+ * braces around anything else, such as JSON, stay literal.
+ */
+const TAG_BODY = String.raw`(\s*[#/^>!&~]?\s*[\w@.[][^{}\n]*?)`;
+const DELIMITER_TAGS: Record<Exclude<DelimiterStyle, 'double_curly'>, RegExp> = {
+  curly: new RegExp(String.raw`(?<![{$%]){(?!{)${TAG_BODY}}(?!})`, 'g'),
+  dollar: new RegExp(String.raw`\$\{${TAG_BODY}\}`, 'g'),
+  percent: new RegExp(String.raw`%\{${TAG_BODY}\}`, 'g'),
+};
+
+/**
+ * Translate a template written with custom delimiters to Handlebars syntax: ${name} becomes
+ * {{name}}, and literal {{ in the template is escaped so it renders as text.
+ */
+export function translateDelimiters(template: string, style?: DelimiterStyle): string {
+  if (!style || style === 'double_curly') {
+    return template;
+  }
+  const escapeMustaches = (text: string) => text.replace(/{{/g, '\\{{');
+  let translated = '';
+  let position = 0;
+  for (const match of template.matchAll(DELIMITER_TAGS[style])) {
+    translated += `${escapeMustaches(template.slice(position, match.index))}{{${match[1]}}}`;
+    position = match.index! + match[0].length;
+  }
+  return translated + escapeMustaches(template.slice(position));
+}
+
+/**
+ * Find tags left in rendered output, such as a placeholder that came in with a variable
+ * value. With custom delimiters, literal {{ }} in the output is not a tag.
+ * @returns The tag contents, trimmed
+ */
+export function findTemplateTags(output: string, style?: DelimiterStyle): string[] {
+  const pattern = !style || style === 'double_curly' ? /{{([^}]+)}}/g : DELIMITER_TAGS[style];
+  return Array.from(output.matchAll(pattern), match => match[1].trim());
+}
+
+/** Blocks that render their body with a new context */
+const CONTEXT_HELPERS = new Set(['each', 'with']);
+
+interface Scope {
+  /** Whether the block changed the context, so plain paths no longer refer to variables */
+  changesContext: boolean;
+  blockParams: string[];
+}
+
+/**
+ * Analyze a template. Paths inside {{#each}} and {{#with}} blocks refer to the iterated
+ * item, so only paths that resolve to the root context count as variables.
+ * @param knownHelpers Names of the helpers available when the template is rendered
+ * @throws The Handlebars parse error if the template is not valid syntax
+ */
+export function analyzeTemplate(
+  template: string,
+  knownHelpers: Iterable<string>,
+): TemplateAnalysis {
+  const helperNames = new Set(knownHelpers);
+  const variables = new Set<string>();
+  const paths = new Set<string>();
+  const helpers = new Set<string>();
+  const unknownHelpers = new Set<string>();
+  const partials = new Set<string>();
+  const scopes: Scope[] = [];
+
+  const addPath = (path: hbs.AST.PathExpression) => {
+    if (path.data || path.parts.length === 0) {
+      return;
+    }
+    const isThisPath = /^(this|\.)(\/|\.|$)/.test(path.original);
+    if (path.depth === 0 && !isThisPath) {
+      if (scopes.some(scope => scope.blockParams.includes(path.parts[0]))) {
+        return;
+      }
+    }
+    const contextDepth = scopes.filter(scope => scope.changesContext).length;
+    if (contextDepth - path.depth > 0) {
+      return;
+    }
+    variables.add(path.parts[0]);
+    paths.add(path.parts.join('.'));
+  };
+
+  const addHelper = (name: string) => {
+    (helperNames.has(name) ? helpers : unknownHelpers).add(name);
+  };
+
+  const visitExpression = (node: hbs.AST.Expression) => {
+    if (node.type === 'PathExpression') {
+      addPath(node as hbs.AST.PathExpression);
+    } else if (node.type === 'SubExpression') {
+      const sub = node as hbs.AST.SubExpression;
+      addHelper(sub.path.original);
+      visitArguments(sub.params, sub.hash);
+    }
+  };
+
+  const visitArguments = (params: hbs.AST.Expression[], hash?: hbs.AST.Hash) => {
+    params.forEach(visitExpression);
+    hash?.pairs.forEach(pair => visitExpression(pair.value));
+  };
+
+  const visitProgram = (program: hbs.AST.Program | undefined, scope: Scope) => {
+    if (!program) {
+      return;
+    }
+    scopes.push({ ...scope, blockParams: program.blockParams ?? [] });
+    program.body.forEach(visitStatement);
+    scopes.pop();
+  };
+
+  const visitStatement = (node: hbs.AST.Statement) => {
+    switch (node.type) {
+      case 'MustacheStatement': {
+        const mustache = node as hbs.AST.MustacheStatement;
+        if (mustache.path.type !== 'PathExpression') {
+          return;
+        }
+        const path = mustache.path as hbs.AST.PathExpression;
+        const hasArguments = mustache.params.length > 0 || mustache.hash?.pairs.length > 0;
+        if (hasArguments || helperNames.has(path.original)) {
+          addHelper(path.original);
+          visitArguments(mustache.params, mustache.hash);
+        } else {
+          addPath(path);
+        }
+        return;
+      }
+      case 'BlockStatement': {
+        const block = node as hbs.AST.BlockStatement;
+        const name = block.path.original;
+        const hasArguments = block.params.length > 0 || block.hash?.pairs.length > 0;
+        let changesContext: boolean;
+        if (hasArguments || helperNames.has(name)) {
+          addHelper(name);
+          visitArguments(block.params, block.hash);
+          if (name === 'extends' && block.params[0]?.type === 'StringLiteral') {
+            partials.add((block.params[0] as hbs.AST.StringLiteral).value);
+          }
+          changesContext = CONTEXT_HELPERS.has(name);
+        } else {
+          // {{#items}}...{{/items}} iterates or enters a variable, like each or with
+          addPath(block.path);
+          changesContext = true;
+        }
+        visitProgram(block.program, { blockParams: [], changesContext });
+        visitProgram(block.inverse, { blockParams: [], changesContext: false });
+        return;
+      }
+      case 'PartialStatement':
+      case 'PartialBlockStatement': {
+        const partial = node as hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement;
+        if (partial.name.type === 'PathExpression') {
+          partials.add((partial.name as hbs.AST.PathExpression).parts.join('/'));
+        } else {
+          visitExpression(partial.name);
+        }
+        visitArguments(partial.params, partial.hash);
+        if (partial.type === 'PartialBlockStatement') {
+          visitProgram(partial.program, { blockParams: [], changesContext: false });
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  visitProgram(Handlebars.parse(escapePinnedPartials(template)), {
+    blockParams: [],
+    changesContext: false,
+  });
+
+  return {
+    helpers: Array.from(helpers),
+    partials: Array.from(partials),
+    paths: Array.from(paths),
+    unknownHelpers: Array.from(unknownHelpers),
+    variables: Array.from(variables),
+  };
+}
@@ -0,0 +1,204 @@
+import Handlebars from 'handlebars';
+
+import { ESCAPERS } from './escaping.js';
+import type { HelperRegistry } from './helper-registry.js';
+import type {
+  EscapingMode,
+  ITemplatingEngine,
+  TemplateAnalysis,
+  TemplateFormatOptions,
+} from './interfaces.js';
+import { analyzeJinja, type JinjaTemplate, parseJinja, renderJinja } from './jinja.js';
+import { analyzeTemplate, escapePinnedPartials, translateDelimiters } from './template-analysis.js';
+import { layoutHelpers } from './template-layouts.js';
+import { templateHelpers } from './utils.js';
+
+type CompileOptions = NonNullable<Parameters<typeof Handlebars.compile>[1]>;
+
+/** The container a compiled template runs in, as Handlebars passes it to decorators */
+interface TemplateContainer {
+  escapeExpression(value: unknown): string;
+}
+
+/** Formats a value the way Handlebars does, escaping it unless a helper returned a SafeString */
+const valueEscaper = (escaping: EscapingMode) => (value: unknown) => {
+  if (value instanceof Handlebars.SafeString) {
+    return value.toHTML();
+  }
+  return value === null || value === undefined ? '' : ESCAPERS[escaping](String(value));
+};
+
+/** The environment templates of each escaping mode are compiled in */
+const escapingEnvironments = new Map<EscapingMode, typeof Handlebars>();
+
+/**
+ * The environment of an escaping mode. Handlebars escapes {{value}} with the escapeExpression
+ * of the container a template runs in, which every environment shares, so each template starts
+ * with the environment's escapeValues decorator to replace it. Partials run the decorators of
+ * the template that includes them, and so take its escaping.
+ */
+function escapingEnvironment(escaping: EscapingMode = 'none'): typeof Handlebars {
+  let env = escapingEnvironments.get(escaping);
+  if (!env) {
+    const escapeValue = valueEscaper(escaping);
+    env = Handlebars.create();
+    env.registerDecorator(
+      'escapeValues',
+      (program: Handlebars.TemplateDelegate, props: unknown, container: TemplateContainer) => {
+        container.escapeExpression = escapeValue;
+        return program;
+      },
+    );
+    escapingEnvironments.set(escaping, env);
+  }
+  return env;
+}
+
+/**
+ * Compiles a Handlebars template in the environment of its escaping. The template holds no
+ * helpers or partials, so every render passes its own.
+ */
+function compile(
+  template: string,
+  format: TemplateFormatOptions | undefined,
+  options: CompileOptions,
+): Handlebars.TemplateDelegate {
+  const env = escapingEnvironment(format?.escaping);
+  const translated = escapePinnedPartials(translateDelimiters(template, format?.delimiterStyle));
+  const ast = env.parse(translated);
+  ast.body.unshift(env.parse('{{*escapeValues}}').body[0]);
+  // Handlebars compiles on the first render, so precompiling reports errors now
+  env.precompile(ast, options);
+  return env.compile(ast, options);
+}
+
+/** The partials of a render, with the ones not found rendering as nothing */
+const renderPartials = (partials: Record<string, Handlebars.TemplateDelegate | null>) =>
+  Object.fromEntries(
+    Object.entries(partials).map(([reference, partial]) => [reference, partial ?? '']),
+  );
+
+/**
+ * Handlebars with the template helpers and layouts. Missing variables are errors.
+ */
+export class HandlebarsTemplatingEngine implements ITemplatingEngine<Handlebars.TemplateDelegate> {
+  public readonly name = 'handlebars';
+  private helperNames = Object.keys({
+    ...Handlebars.helpers,
+    ...templateHelpers,
+    ...layoutHelpers({}),
+  });
+
+  /**
+   * @param helperRegistry Helpers operators added to the built-in ones
+   */
+  public constructor(private readonly helperRegistry?: HelperRegistry) {}
+
+  public compile(template: string, options?: TemplateFormatOptions): Handlebars.TemplateDelegate {
+    return compile(template, options, { preventIndent: true, strict: true });
+  }
+
+  public render(
+    template: Handlebars.TemplateDelegate,
+    variables: Record<string, unknown>,
+    partials: Record<string, Handlebars.TemplateDelegate | null>,
+  ): string {
+    const runtime: Handlebars.RuntimeOptions = { partials: renderPartials(partials) };
+    runtime.helpers = {
+      ...templateHelpers,
+      ...this.helperRegistry?.handlebarsHelpers(),
+      ...layoutHelpers(runtime),
+    };
+    return template(variables, runtime);
+  }
+
+  public analyze(template: string, options?: TemplateFormatOptions): TemplateAnalysis {
+    return analyzeTemplate(
+      translateDelimiters(template, options?.delimiterStyle),
+      [...this.helperNames, ...(this.helperRegistry?.names() ?? [])],
+    );
+  }
+}
+
+/** Handlebars built-ins, which Mustache templates may not call by name */
+const BUILT_IN_HELPERS = ['each', 'if', 'unless', 'with', 'log', 'lookup'];
+
+/**
+ * Logic-less Mustache: variables, sections, inverted sections, comments and partials, with
+ * names inside sections falling back to the enclosing contexts. Helpers are compile errors.
+ */
+export class MustacheTemplatingEngine implements ITemplatingEngine<Handlebars.TemplateDelegate> {
+  public readonly name = 'mustache';
+
+  public compile(template: string, options?: TemplateFormatOptions): Handlebars.TemplateDelegate {
+    return compile(template, options, {
+      compat: true,
+      knownHelpers: Object.fromEntries(BUILT_IN_HELPERS.map(name => [name, false])),
+      knownHelpersOnly: true,
+    });
+  }
+
+  public render(
+    template: Handlebars.TemplateDelegate,
+    variables: Record<string, unknown>,
+    partials: Record<string, Handlebars.TemplateDelegate | null>,
+  ): string {
+    // Sections iterate lists through the built-in helpers, which templates cannot call
+    return template(variables, { partials: renderPartials(partials) });
+  }
+
+  public analyze(template: string, options?: TemplateFormatOptions): TemplateAnalysis {
+    return analyzeTemplate(translateDelimiters(template, options?.delimiterStyle), []);
+  }
+}
+
+/** A parsed Jinja template with the escaping of the prompt it renders into */
+interface CompiledJinjaTemplate {
+  template: JinjaTemplate;
+  escaping?: EscapingMode;
+}
+
+/**
+ * Jinja-style templates, see jinja.ts for the supported syntax. Jinja has its own delimiters,
+ * so the delimiter style does not apply.
+ */
+export class JinjaTemplatingEngine implements ITemplatingEngine<CompiledJinjaTemplate> {
+  public readonly name = 'jinja';
+
+  public compile(template: string, options?: TemplateFormatOptions): CompiledJinjaTemplate {
+    return { escaping: options?.escaping, template: parseJinja(template) };
+  }
+
+  public render(
+    compiled: CompiledJinjaTemplate,
+    variables: Record<string, unknown>,
+    partials: Record<string, CompiledJinjaTemplate | null>,
+  ): string {
+    return renderJinja(
+      compiled.template,
+      variables,
+      Object.fromEntries(
+        Object.entries(partials).map(([reference, partial]) => [
+          reference,
+          partial ? partial.template : null,
+        ]),
+      ),
+      ESCAPERS[compiled.escaping ?? 'none'],
+    );
+  }
+
+  public analyze(template: string): TemplateAnalysis {
+    return analyzeJinja(template);
+  }
+}
+
+/**
+ * The engines every PromptService can select without registering them
+ */
+export const builtInTemplatingEngines = (): ITemplatingEngine[] => [
+  new HandlebarsTemplatingEngine(),
+  new MustacheTemplatingEngine(),
+  new JinjaTemplatingEngine(),
+];
+
+export const defaultTemplatingEngine = new HandlebarsTemplatingEngine();
@@ -0,0 +1,57 @@
+import Handlebars from 'handlebars';
+
+/** A block override captured from a child template, rendered with the child's context */
+interface BlockOverride {
+  fn: Handlebars.TemplateDelegate;
+  context: unknown;
+}
+
+type Blocks = Record<string, BlockOverride>;
+
+/**
+ * Helpers for template inheritance. A layout defines named blocks with default content:
+ *
+ *   {{#block "role"}}You are a helpful assistant.{{/block}}
+ *
+ * and a child extends it, overriding some of the blocks:
+ *
+ *   {{#extends "base-system"}}{{#override "role"}}You are a code reviewer.{{/override}}{{/extends}}
+ *
+ * Layouts are partials of the render, so a layout may extend another layout. The most derived
+ * override of a block wins.
+ * @param runtime The helpers and partials of the render, which hold the layouts
+ */
+export function layoutHelpers(
+  runtime: Handlebars.RuntimeOptions,
+): Record<string, Handlebars.HelperDelegate> {
+  return {
+    block(this: unknown, name: string, options: Handlebars.HelperOptions) {
+      const override = (options.data?.blocks as Blocks | undefined)?.[name];
+      if (override) {
+        return override.fn(override.context, { data: options.data });
+      }
+      return options.fn(this);
+    },
+
+    extends(this: unknown, name: string, options: Handlebars.HelperOptions) {
+      const layout = runtime.partials?.[name];
+      if (typeof layout !== 'function') {
+        throw new Error(`Layout prompt '${name}' not found.`);
+      }
+      const data = Handlebars.createFrame(options.data ?? {});
+      data.blocks = { ...(options.data?.blocks as Blocks | undefined) };
+      // Collect the overrides in the body, then render the layout with them
+      options.fn(this, { data });
+      return layout(this, { ...runtime, data });
+    },
+
+    override(this: unknown, name: string, options: Handlebars.HelperOptions) {
+      const blocks = options.data?.blocks as Blocks | undefined;
+      if (!blocks) {
+        throw new Error(`Block override '${name}' must be inside {{#extends}}.`);
+      }
+      blocks[name] ??= { context: this, fn: options.fn };
+      return '';
+    },
+  };
+}
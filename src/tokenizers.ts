@@ -0,0 +1,261 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import type { ITokenizer, TokenOverflowStrategy } from './interfaces.js';
+
+export const DEFAULT_TOKENIZER = 'o200k_base';
+
+// tiktoken matches contractions case-insensitively with (?i:...), which JavaScript lacks, and
+// the i flag would also fold the upper and lower case letter classes of o200k
+const CONTRACTIONS = String.raw`'(?:[sdmtSDMT]|[lL]{2}|[vV][eE]|[rR][eE])`;
+const UPPER = String.raw`[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]`;
+const LOWER = String.raw`[\p{Ll}\p{Lm}\p{Lo}\p{M}]`;
+
+/**
+ * How each encoding splits text into the pieces that byte pairs are merged within
+ */
+const PIECE_PATTERNS: Record<string, string[]> = {
+  cl100k_base: [
+    CONTRACTIONS,
+    String.raw`[^\r\n\p{L}\p{N}]?\p{L}+`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ],
+  o200k_base: [
+    String.raw`[^\r\n\p{L}\p{N}]?${UPPER}*${LOWER}+(?:${CONTRACTIONS})?`,
+    String.raw`[^\r\n\p{L}\p{N}]?${UPPER}+${LOWER}*(?:${CONTRACTIONS})?`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n/]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ],
+};
+
+/** Byte sequences as Latin-1 strings, so they can key a Map */
+const bytesKey = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+/**
+ * A byte pair encoding tokenizer compatible with tiktoken. Special tokens such as
+ * <|endoftext|> are encoded as ordinary text.
+ */
+export class BpeTokenizer implements ITokenizer {
+  private readonly decoder: Map<number, Buffer>;
+  private readonly pattern: RegExp;
+
+  /**
+   * @param ranks The rank of every token, by its bytes as a Latin-1 string
+   * @param pattern The pieces text is split into before merging, see PIECE_PATTERNS
+   */
+  public constructor(
+    public readonly name: string,
+    private readonly ranks: Map<string, number>,
+    pattern: string,
+  ) {
+    this.decoder = new Map(
+      Array.from(ranks, ([bytes, rank]) => [rank, Buffer.from(bytes, 'latin1')]),
+    );
+    this.pattern = new RegExp(pattern, 'gu');
+  }
+
+  public encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const [piece] of text.matchAll(this.pattern)) {
+      const bytes = Buffer.from(piece, 'utf8');
+      const rank = this.ranks.get(bytesKey(bytes));
+      if (rank !== undefined) {
+        tokens.push(rank);
+      } else {
+        tokens.push(...this.mergeBytePairs(bytes));
+      }
+    }
+    return tokens;
+  }
+
+  public decode(tokens: number[]): string {
+    return Buffer.concat(
+      tokens.map(token => {
+        const bytes = this.decoder.get(token);
+        if (!bytes) {
+          throw new Error(`Unknown token ${token} for tokenizer '${this.name}'.`);
+        }
+        return bytes;
+      }),
+    ).toString('utf8');
+  }
+
+  /**
+   * Starts from single bytes and repeatedly merges the adjacent pair with the lowest rank,
+   * as tiktoken does.
+   */
+  private mergeBytePairs(bytes: Uint8Array): number[] {
+    const rank = (start: number, end: number) =>
+      this.ranks.get(bytesKey(bytes.subarray(start, end)));
+    // The boundaries between the tokens so far
+    const boundaries = Array.from({ length: bytes.length + 1 }, (_, index) => index);
+    for (;;) {
+      let lowest = Infinity;
+      let merge = -1;
+      for (let i = 0; i < boundaries.length - 2; i++) {
+        const pairRank = rank(boundaries[i], boundaries[i + 2]);
+        if (pairRank !== undefined && pairRank < lowest) {
+          lowest = pairRank;
+          merge = i;
+        }
+      }
+      if (merge < 0) {
+        break;
+      }
+      boundaries.splice(merge + 1, 1);
+    }
+    return boundaries.slice(0, -1).map((start, i) => {
+      const token = rank(start, boundaries[i + 1]);
+      if (token === undefined) {
+        throw new Error(`Tokenizer '${this.name}' has no token for byte ${bytes[start]}.`);
+      }
+      return token;
+    });
+  }
+}
+
+/**
+ * Reads token ranks in the .tiktoken format: one base64 token and its rank per line.
+ */
+export function parseTiktokenRanks(text: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of text.split('\n')) {
+    const [token, rank] = line.trim().split(/\s+/);
+    if (token && rank !== undefined) {
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Loads cl100k_base or o200k_base from its .tiktoken file, such as o200k_base.tiktoken.
+ * @param directory Where the rank files are kept, TOKENIZERS_DIR by default
+ * @throws Error if the encoding is unknown or its file cannot be read
+ */
+export async function loadTokenizer(name: string, directory: string): Promise<ITokenizer> {
+  if (!Object.prototype.hasOwnProperty.call(PIECE_PATTERNS, name)) {
+    throw new Error(`Unknown tokenizer '${name}'.`);
+  }
+  const ranks = await fs.readFile(path.join(directory, `${name}.tiktoken`), 'utf8');
+  return new BpeTokenizer(name, parseTiktokenRanks(ranks), PIECE_PATTERNS[name].join('|'));
+}
+
+/** UTF-16 code units per token of ApproximateTokenizer, and the bits each takes in a token */
+const APPROXIMATE_TOKEN_UNITS = 3;
+const APPROXIMATE_UNIT_BITS = 2 ** 17;
+
+/**
+ * Counts tokens without rank files: the pieces of an encoding are cut into tokens of up to
+ * three UTF-16 code units. Text comes out at more tokens than with the encoding itself, so
+ * token budgets still hold. Each token holds its code units, so tokens decode back to the text.
+ */
+export class ApproximateTokenizer implements ITokenizer {
+  private readonly pattern: RegExp;
+
+  /**
+   * @param name The encoding whose pieces are counted, o200k_base's if it is not built in
+   */
+  public constructor(public readonly name: string) {
+    const pattern = PIECE_PATTERNS[name] ?? PIECE_PATTERNS[DEFAULT_TOKENIZER];
+    this.pattern = new RegExp(pattern.join('|'), 'gu');
+  }
+
+  public encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const [piece] of text.matchAll(this.pattern)) {
+      let start = 0;
+      while (start < piece.length) {
+        let end = Math.min(start + APPROXIMATE_TOKEN_UNITS, piece.length);
+        // Keep surrogate pairs in one token
+        if (end < piece.length && /[\uD800-\uDBFF]/.test(piece[end - 1])) {
+          end--;
+        }
+        let token = 0;
+        for (let i = start; i < end; i++) {
+          token = token * APPROXIMATE_UNIT_BITS + piece.charCodeAt(i) + 1;
+        }
+        tokens.push(token);
+        start = end;
+      }
+    }
+    return tokens;
+  }
+
+  public decode(tokens: number[]): string {
+    return tokens
+      .map(token => {
+        const units: number[] = [];
+        for (let rest = token; rest > 0; rest = Math.floor(rest / APPROXIMATE_UNIT_BITS)) {
+          units.unshift((rest % APPROXIMATE_UNIT_BITS) - 1);
+        }
+        return String.fromCharCode(...units);
+      })
+      .join('');
+  }
+}
+
+const builtInTokenizers = new Map<string, Promise<ITokenizer>>();
+/** The names of tokenizers that could not be loaded and have been warned about */
+const unavailableTokenizers = new Set<string>();
+
+/**
+ * Loads cl100k_base or o200k_base once per process, since the rank files are large.
+ * @returns An ApproximateTokenizer, after a warning, if the tokenizer cannot be loaded
+ */
+export function builtInTokenizer(name: string, directory: string): Promise<ITokenizer> {
+  const key = path.join(directory, name);
+  let tokenizer = builtInTokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = loadTokenizer(name, directory).catch((error: Error) => {
+      if (!unavailableTokenizers.has(name)) {
+        unavailableTokenizers.add(name);
+        console.warn(
+          `Tokenizer '${name}' is not available, counting its tokens approximately: ` +
+            error.message,
+        );
+      }
+      return new ApproximateTokenizer(name);
+    });
+    builtInTokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Shortens text to a number of tokens.
+ * @param strategy truncate-head drops the start, truncate-tail the end and middle-out the
+ * middle, keeping both ends
+ */
+export function truncateText(
+  tokenizer: ITokenizer,
+  text: string,
+  maxTokens: number,
+  strategy: Exclude<TokenOverflowStrategy, 'error'>,
+): string {
+  const tokens = tokenizer.encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  // A cut can fall inside a character, which then decodes to U+FFFD
+  const decode = (part: number[]) => tokenizer.decode(part).replace(/^\uFFFD+|\uFFFD+$/g, '');
+  switch (strategy) {
+    case 'truncate-head':
+      return decode(tokens.slice(tokens.length - maxTokens));
+    case 'truncate-tail':
+      return decode(tokens.slice(0, maxTokens));
+    case 'middle-out': {
+      const head = Math.ceil(maxTokens / 2);
+      return (
+        decode(tokens.slice(0, head)) + decode(tokens.slice(tokens.length - (maxTokens - head)))
+      );
+    }
+  }
+}
@@ -1,11 +1,13 @@
 import { exec } from 'child_process';
 import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import type { z } from 'zod';
 
-import { AppError, HttpErrorCode } from './errors.js';
+import { atomicWriteFile } from './adapters.js';
+import { AppError, HttpErrorCode, ValidationError } from './errors.js';
 import type { IPromptRepository, IPromptApplication, WorkflowExecutionState } from './interfaces.js';
 import type { PromptService } from './prompt-service.js';
 import { workflowSchema } from './schemas.js';
@@ -30,6 +32,8 @@ export interface RunWorkflowResult {
   paused?: boolean;
   prompt?: string;
   stepId?: string;
+  /** Reply schema declared by the paused human-approval step */
+  inputSchema?: Record<string, unknown>;
   executionId?: string;
 }
 
@@ -39,10 +43,14 @@ export interface RunWorkflowResult {
 export interface IWorkflowApplication {
   parseWorkflow(data: unknown): Workflow;
   validateWorkflow(data: unknown): boolean;
-  runWorkflow(workflow: Workflow, initialContext?: WorkflowContext): Promise<RunWorkflowResult>;
+  runWorkflow(
+    workflow: Workflow,
+    initialContext?: WorkflowContext,
+    executionId?: string,
+  ): Promise<RunWorkflowResult>;
   resumeWorkflow(executionId: string, input: unknown): Promise<RunWorkflowResult>;
   executeWorkflow(workflow: any, context?: any): Promise<any>;
-  getWorkflowState(executionId: string): Promise<any>;
+  getWorkflowState(executionId: string): Promise<WorkflowExecutionState | null>;
   pauseWorkflow(executionId: string): Promise<void>;
   cancelWorkflow(executionId: string): Promise<void>;
 }
@@ -54,6 +62,8 @@ export interface IWorkflowRepository {
   saveWorkflowState(state: WorkflowExecutionState): Promise<void>;
   getWorkflowState(executionId: string): Promise<WorkflowExecutionState | null>;
   listWorkflowStates(workflowId: string): Promise<WorkflowExecutionState[]>;
+  /** Workflow definitions, for storage that keeps them; the latest version if none is given */
+  getWorkflow?(workflowId: string, version?: number): Promise<Workflow | null>;
 }
 
 export class WorkflowApplication implements IWorkflowApplication {
@@ -129,6 +139,7 @@ export class WorkflowApplication implements IWorkflowApplication {
           await this.storageAdapter.saveWorkflowState(state);
           return {
             executionId: state.executionId,
+            inputSchema: step.inputSchema,
             message: 'Workflow paused for human approval',
             paused: true,
             prompt: step.prompt,
@@ -333,9 +344,16 @@ export class WorkflowApplication implements IWorkflowApplication {
     return workflow.steps[currentIndex + 1]?.id;
   }
 
+  /**
+   * Run a workflow from its first step.
+   * @param workflow The workflow to run
+   * @param initialContext Variables merged over the workflow's own variables
+   * @param executionId ID for the new execution, so callers can follow its events
+   */
   public async runWorkflow(
     workflow: Workflow,
     initialContext: WorkflowContext = {},
+    executionId: string = randomUUID(),
   ): Promise<RunWorkflowResult> {
     const userId = initialContext.userId as string || 'anonymous';
     const rateLimiter = getWorkflowRateLimiter();
@@ -351,7 +369,6 @@ export class WorkflowApplication implements IWorkflowApplication {
         shell: new ShellRunner(),
       };
 
-      const executionId = randomUUID();
       const initialState: WorkflowExecutionState = {
         context: { ...workflow.variables, ...initialContext },
         createdAt: new Date().toISOString(),
@@ -372,16 +389,17 @@ export class WorkflowApplication implements IWorkflowApplication {
   }
 
   /**
-   * Helper to load a workflow definition by ID (assumes promptService or storageAdapter can provide it)
+   * Helper to load a workflow definition by ID, from the storage adapter if it supports
+   * workflows and otherwise from the workflow definition store
    * @param workflowId
+   * @param version The version the execution was started with
    */
-  private async getWorkflowById(workflowId: string): Promise<Workflow | null> {
+  private async getWorkflowById(workflowId: string, version?: number): Promise<Workflow | null> {
     // Try to load from storageAdapter if method exists
-    if (typeof (this.storageAdapter as any).getWorkflow === 'function') {
-      return await (this.storageAdapter as any).getWorkflow(workflowId);
+    if (this.storageAdapter.getWorkflow) {
+      return await this.storageAdapter.getWorkflow(workflowId, version);
     }
-    // Otherwise, not implemented
-    return null;
+    return loadWorkflowFromFile(workflowId, version);
   }
 
   /**
@@ -400,7 +418,7 @@ export class WorkflowApplication implements IWorkflowApplication {
       return { message: 'Workflow is not paused or missing current step', success: false };
     }
     // Load the workflow definition
-    const workflow = await this.getWorkflowById(state.workflowId);
+    const workflow = await this.getWorkflowById(state.workflowId, state.version);
     if (!workflow) {
       return { message: 'Workflow definition not found', success: false };
     }
@@ -431,9 +449,8 @@ export class WorkflowApplication implements IWorkflowApplication {
     return { workflow, context, executionId: 'stub-execution-id' };
   }
 
-  public async getWorkflowState(executionId: string): Promise<any> {
-    // Stub implementation
-    return { executionId, state: 'stub' };
+  public async getWorkflowState(executionId: string): Promise<WorkflowExecutionState | null> {
+    return this.storageAdapter.getWorkflowState(executionId);
   }
 
   public async pauseWorkflow(executionId: string): Promise<void> {
@@ -727,3 +744,113 @@ export function auditLogWorkflowEvent(event: {
   fs.mkdirSync(path.dirname(auditLogPath), { recursive: true });
   fs.appendFileSync(auditLogPath, JSON.stringify(logEntry) + '\n');
 }
+
+// --- Workflow Definition Store ---
+// Workflow definitions are stored as data/workflows/<id>-v<version>.json. The HTTP routes,
+// the MCP resources and tools, and resumeWorkflow all read them, so the store lives here.
+const WORKFLOW_DIR = path.resolve(process.cwd(), 'data', 'workflows');
+const workflowChanges = new EventEmitter().setMaxListeners(0);
+
+function ensureWorkflowDir() {
+  if (!fs.existsSync(WORKFLOW_DIR)) fs.mkdirSync(WORKFLOW_DIR, { recursive: true });
+}
+
+/**
+ * The file of a workflow version, or null if the ID would place it outside the workflow
+ * directory, such as an ID with path separators or '..' segments
+ */
+function getWorkflowFileName(id: string, version: number): string | null {
+  const file = path.resolve(WORKFLOW_DIR, `${id}-v${version}.json`);
+  return path.dirname(file) === WORKFLOW_DIR ? file : null;
+}
+
+/**
+ * The versions of a workflow that have a file. The ID must match the whole name before the
+ * version, so workflow foo does not take the files of foo-vault.
+ */
+function getWorkflowFileVersions(id: string): number[] {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^${escaped}-v(\\d+)\\.json$`);
+  return fs.readdirSync(WORKFLOW_DIR).flatMap(file => {
+    const match = pattern.exec(file);
+    return match ? [parseInt(match[1], 10)] : [];
+  });
+}
+
+/**
+ * Call a listener with the ID and version of every workflow definition saved.
+ * @returns A function that removes the listener
+ */
+export function onWorkflowChange(listener: (id: string, version: number) => void): () => void {
+  workflowChanges.on('change', listener);
+  return () => {
+    workflowChanges.off('change', listener);
+  };
+}
+
+/**
+ * @throws ValidationError if the workflow has no string id and number version, or the id
+ * contains a path
+ */
+export async function saveWorkflowToFile(workflow: any) {
+  ensureWorkflowDir();
+  if (typeof workflow.id !== 'string' || typeof workflow.version !== 'number') {
+    throw new ValidationError('Workflow must have string id and number version');
+  }
+  const file = getWorkflowFileName(workflow.id, workflow.version);
+  if (!file) {
+    throw new ValidationError(`Invalid workflow id: ${workflow.id}`, [
+      { message: 'Workflow ids cannot contain paths', path: ['id'] },
+    ]);
+  }
+  await atomicWriteFile(file, JSON.stringify(workflow, null, 2));
+  workflowChanges.emit('change', workflow.id, workflow.version);
+}
+
+export function loadWorkflowFromFile(id: string, version?: number) {
+  ensureWorkflowDir();
+  if (version !== undefined) {
+    const file = getWorkflowFileName(id, version);
+    if (!file || !fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+  // If no version specified, get the latest version
+  const versions = getWorkflowFileVersions(id);
+  if (versions.length === 0) return null;
+  const maxVersion = Math.max(...versions);
+  const file = getWorkflowFileName(id, maxVersion);
+  if (!file) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+export function getAllWorkflowVersions(id: string) {
+  ensureWorkflowDir();
+  return getWorkflowFileVersions(id).sort((a, b) => a - b);
+}
+
+export function getAllWorkflows(latestOnly = true) {
+  ensureWorkflowDir();
+  const files = fs.readdirSync(WORKFLOW_DIR).filter(f => f.endsWith('.json'));
+  const workflowsById: Record<string, any[]> = {};
+  files.forEach(f => {
+    const match = f.match(/^(.*)-v(\d+)\.json$/);
+    if (!match) return;
+    const id = match[1];
+    const version = parseInt(match[2], 10);
+    if (!workflowsById[id]) workflowsById[id] = [];
+    workflowsById[id].push({ version, file: f });
+  });
+  const result: any[] = [];
+  Object.entries(workflowsById).forEach(([id, versions]) => {
+    const sorted = (versions as any[]).sort((a, b) => b.version - a.version);
+    if (latestOnly) {
+      const file = sorted[0].file;
+      result.push(JSON.parse(fs.readFileSync(path.join(WORKFLOW_DIR, file), 'utf8')));
+    } else {
+      sorted.forEach(({ file }) => {
+        result.push(JSON.parse(fs.readFileSync(path.join(WORKFLOW_DIR, file), 'utf8')));
+      });
+    }
+  });
+  return result;
+}
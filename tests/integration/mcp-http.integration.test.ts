@@ -0,0 +1,192 @@
+import type http from 'http';
+import type { AddressInfo } from 'net';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { startHttpServer } from '../../src/http-server.js';
+import { createMcpServer } from '../../src/mcp-server.js';
+import { PromptService } from '../../src/prompt-service.js';
+import { SequenceApplication } from '../../src/sequence-service.js';
+import { defaultTemplatingEngine } from '../../src/template-engines.js';
+import { WorkflowApplication } from '../../src/workflow-service.js';
+
+describe('MCP Streamable HTTP endpoint', () => {
+  let server: http.Server;
+  let mcpUrl: URL;
+
+  const connectClient = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(mcpUrl, {
+      requestInit: { headers: { 'x-api-key': 'test-key' } },
+    });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  beforeAll(async () => {
+    process.env.API_KEYS = 'test-key';
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const promptService = new PromptService(adapter, defaultTemplatingEngine);
+    const sequenceService = new SequenceApplication(adapter);
+    const workflowService = new WorkflowApplication(adapter, promptService as any);
+    await promptService.createPrompt({
+      content: 'You are a helpful assistant.',
+      id: 'assistant',
+      isTemplate: false,
+      name: 'Assistant',
+    });
+
+    server = await startHttpServer(
+      () => createMcpServer({ promptService, sequenceService, workflowService }),
+      { host: '127.0.0.1', port: 0 },
+      {
+        promptService: promptService as any,
+        sequenceService,
+        storageAdapters: [adapter],
+        workflowService,
+      },
+    );
+    const { port } = server.address() as AddressInfo;
+    mcpUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should require an API key', async () => {
+    const res = await fetch(mcpUrl, {
+      body: JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'ping' }),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it('should serve prompts over a session', async () => {
+    const { client, transport } = await connectClient();
+
+    expect(transport.sessionId).toBeDefined();
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(['assistant']);
+
+    await client.close();
+  });
+
+  it('should keep sessions separate', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    await expect(first.client.listPrompts()).resolves.toBeDefined();
+    await expect(second.client.listPrompts()).resolves.toBeDefined();
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should reject requests without a session', async () => {
+    const res = await fetch(mcpUrl, {
+      body: JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'prompts/list' }),
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        'x-api-key': 'test-key',
+      },
+      method: 'POST',
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('should end a session on DELETE', async () => {
+    const { client, transport } = await connectClient();
+    const sessionId = transport.sessionId as string;
+
+    await transport.terminateSession();
+    const res = await fetch(mcpUrl, {
+      headers: { 'mcp-session-id': sessionId, 'x-api-key': 'test-key' },
+      method: 'GET',
+    });
+    expect(res.status).toBe(404);
+
+    await client.close();
+  });
+});
+
+describe('MCP Streamable HTTP session limits', () => {
+  let server: http.Server;
+  let mcpUrl: URL;
+  const headers = {
+    Accept: 'application/json, text/event-stream',
+    'Content-Type': 'application/json',
+    'x-api-key': 'test-key',
+  };
+
+  const initialize = async () => {
+    const res = await fetch(mcpUrl, {
+      body: JSON.stringify({
+        id: 1,
+        jsonrpc: '2.0',
+        method: 'initialize',
+        params: {
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+          protocolVersion: '2025-03-26',
+        },
+      }),
+      headers,
+      method: 'POST',
+    });
+    await res.text();
+    return res;
+  };
+
+  beforeAll(async () => {
+    process.env.API_KEYS = 'test-key';
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const promptService = new PromptService(adapter, defaultTemplatingEngine);
+    const sequenceService = new SequenceApplication(adapter);
+    const workflowService = new WorkflowApplication(adapter, promptService as any);
+
+    server = await startHttpServer(
+      () => createMcpServer({ promptService, sequenceService, workflowService }),
+      { host: '127.0.0.1', mcpMaxSessions: 1, mcpSessionIdleTimeout: 0.2, port: 0 },
+      {
+        promptService: promptService as any,
+        sequenceService,
+        storageAdapters: [adapter],
+        workflowService,
+      },
+    );
+    const { port } = server.address() as AddressInfo;
+    mcpUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should refuse sessions beyond the limit and close idle ones', async () => {
+    const first = await initialize();
+    expect(first.status).toBe(200);
+    expect((await initialize()).status).toBe(503);
+
+    await new Promise(resolve => setTimeout(resolve, 400));
+    const ended = await fetch(mcpUrl, {
+      headers: { ...headers, 'mcp-session-id': first.headers.get('mcp-session-id') as string },
+      method: 'DELETE',
+    });
+    expect(ended.status).toBe(404);
+
+    const next = await initialize();
+    expect(next.status).toBe(200);
+    await fetch(mcpUrl, {
+      headers: { ...headers, 'mcp-session-id': next.headers.get('mcp-session-id') as string },
+      method: 'DELETE',
+    });
+  });
+});
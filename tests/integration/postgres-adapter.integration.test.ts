@@ -98,10 +98,11 @@ describe.skip('PostgresAdapter Integration', () => {
     const updatedPrompt = await adapter.updatePrompt(promptId, 1, promptToUpdate);
 
     // Assert
-    expect(updatedPrompt).toBeDefined();
-    expect(updatedPrompt.content).toBe('Updated content');
+    expect(updatedPrompt).toMatchObject({ content: 'Updated content', version: 2 });
     const retrieved = await adapter.getPrompt(promptId);
     expect(retrieved?.description).toBe('Original description');
+    // Stored versions are immutable
+    expect((await adapter.getPrompt(promptId, 1))?.content).toBe('Original content');
   });
 
   itIfConnected('should list prompts with optional filters', async () => {
@@ -175,4 +176,66 @@ describe.skip('PostgresAdapter Integration', () => {
     // Assert
     expect(retrieved).toBeNull();
   });
+
+  itIfConnected('should keep versions with their own tags and variables', async () => {
+    // Arrange
+    const now = new Date().toISOString();
+    const promptId = `versions-test-${Date.now()}`;
+    const prompt: Prompt = {
+      content: 'Review {{diff}}',
+      createdAt: now,
+      id: promptId,
+      isTemplate: true,
+      name: 'Versions Test',
+      tags: ['review'],
+      updatedAt: now,
+      variables: [{ name: 'diff', required: true }],
+      version: 1,
+    };
+
+    // Act
+    await adapter.savePrompt(prompt);
+    const second = await adapter.savePrompt({ ...prompt, tags: ['review', 'git'], version: 2 });
+    const third = await adapter.savePrompt({
+      ...prompt,
+      content: 'Review {{diff}} briefly',
+      version: 3,
+    });
+    await adapter.deletePrompt(promptId, 2);
+
+    // Assert
+    expect(second.version).toBe(2);
+    expect(third.version).toBe(3);
+    expect(await adapter.listPromptVersions(promptId)).toEqual([1, 3]);
+    expect(await adapter.getPrompt(promptId, 1)).toMatchObject({
+      tags: ['review'],
+      variables: [{ name: 'diff', required: true }],
+    });
+    expect((await adapter.getPrompt(promptId))?.version).toBe(3);
+    const versions = (await adapter.listPrompts({ search: 'Versions Test' }, true)).map(
+      p => p.version,
+    );
+    expect(versions).toEqual([1, 3]);
+  });
+
+  itIfConnected('should add the next version when a stored version is saved again', async () => {
+    const now = new Date().toISOString();
+    const prompt: Prompt = {
+      content: 'Review the diff',
+      createdAt: now,
+      id: `duplicate-test-${Date.now()}`,
+      isTemplate: false,
+      name: 'Duplicate Test',
+      updatedAt: now,
+      version: 1,
+    };
+
+    await adapter.savePrompt(prompt);
+
+    const second = await adapter.savePrompt({ ...prompt, content: 'Review the PR' });
+
+    expect(second.version).toBe(2);
+    expect((await adapter.getPrompt(prompt.id, 1))?.content).toBe('Review the diff');
+    expect((await adapter.getPrompt(prompt.id))?.content).toBe('Review the PR');
+  });
 });
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type http from 'http';
+import type { AddressInfo } from 'net';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { startHttpServer } from '../../src/http-server.js';
+import { PromptService } from '../../src/prompt-service.js';
+import { SequenceApplication } from '../../src/sequence-service.js';
+import { defaultTemplatingEngine } from '../../src/template-engines.js';
+import { WorkflowApplication } from '../../src/workflow-service.js';
+
+describe('POST /api/v1/prompts/lint', () => {
+  let server: http.Server;
+  let lintUrl: URL;
+
+  const lint = (body: unknown) =>
+    fetch(lintUrl, {
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'test-key' },
+      method: 'POST',
+    });
+
+  beforeAll(async () => {
+    process.env.API_KEYS = 'test-key';
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const promptService = new PromptService(adapter, defaultTemplatingEngine);
+    server = await startHttpServer(
+      null,
+      { host: '127.0.0.1', port: 0 },
+      {
+        promptService: promptService as any,
+        sequenceService: new SequenceApplication(adapter),
+        storageAdapters: [adapter],
+        workflowService: new WorkflowApplication(adapter, promptService as any),
+      },
+    );
+    const { port } = server.address() as AddressInfo;
+    lintUrl = new URL(`http://127.0.0.1:${port}/api/v1/prompts/lint`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should lint a template without storing it', async () => {
+    const res = await lint({
+      content: '{{#each items}}{{name}}{{/each}} {{total}}',
+      isTemplate: true,
+      variables: ['items'],
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      issues: [{ code: 'undeclared-variable', name: 'total', severity: 'error' }],
+      valid: false,
+      variables: ['items', 'total'],
+    });
+  });
+
+  it('should reject malformed requests', async () => {
+    const res = await lint({ content: 42, isTemplate: true });
+    expect(res.status).toBe(400);
+  });
+});
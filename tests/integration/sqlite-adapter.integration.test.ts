@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { SqliteAdapter } from '../../src/adapters.js';
+import type { Prompt } from '../../src/interfaces.js';
+
+// This test requires the better-sqlite3 native module
+describe('SqliteAdapter Integration', () => {
+  let adapter: SqliteAdapter;
+  let dir: string;
+  let isConnected = false;
+
+  const prompt = (id: string, fields: Partial<Prompt> = {}): Prompt => ({
+    content: 'Review the diff',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    id,
+    isTemplate: false,
+    name: id,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    version: 1,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-prompts-sqlite-'));
+    adapter = new SqliteAdapter({ filename: path.join(dir, 'prompts.db') });
+    try {
+      await adapter.connect();
+      isConnected = await adapter.isConnected();
+    } catch (error) {
+      console.error('Skipping SQLite tests: Failed to open the database:', error);
+      isConnected = false;
+    }
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await fs.rm(dir, { force: true, recursive: true });
+  });
+
+  it('should keep versions and add the next one when a version is saved again', async () => {
+    if (!isConnected) return;
+    await adapter.savePrompt(prompt('review'));
+    const second = await adapter.savePrompt(prompt('review', { content: 'Review the PR' }));
+
+    expect(second.version).toBe(2);
+    expect(await adapter.listPromptVersions('review')).toEqual([1, 2]);
+    expect((await adapter.getPrompt('review'))?.content).toBe('Review the PR');
+    expect((await adapter.getPrompt('review', 1))?.content).toBe('Review the diff');
+  });
+
+  it('should survive reopening the database', async () => {
+    if (!isConnected) return;
+    await adapter.savePrompt(prompt('review', { outputSchema: { type: 'object' } }));
+    await adapter.updatePrompt('review', 1, { description: 'Code review' });
+    await adapter.disconnect();
+
+    await adapter.connect();
+
+    expect(await adapter.getPrompt('review', 1)).toMatchObject({
+      description: 'Code review',
+      outputSchema: { type: 'object' },
+    });
+  });
+
+  it('should rank search results and keep the index in sync', async () => {
+    if (!isConnected) return;
+    await adapter.savePrompt(
+      prompt('summary', { content: 'Summarize a code review', name: 'Summary' }),
+    );
+    await adapter.savePrompt(prompt('review', { name: 'Code review' }));
+    await adapter.savePrompt(prompt('poem', { content: 'Write a poem', name: 'Poem' }));
+
+    const ids = async (search: string) =>
+      (await adapter.listPrompts({ search })).map(found => found.id);
+
+    expect(await ids('review')).toEqual(['review', 'summary']);
+    expect(await ids('rev "code')).toEqual(['review', 'summary']);
+
+    await adapter.updatePrompt('summary', 1, { content: 'Summarize a meeting' });
+    await adapter.deletePrompt('review');
+    expect(await ids('review')).toEqual([]);
+  });
+
+  it('should filter by tags and list the latest versions', async () => {
+    if (!isConnected) return;
+    await adapter.savePrompt(prompt('review', { tags: ['code'] }));
+    await adapter.savePrompt(prompt('review', { tags: ['code', 'git'] }));
+    await adapter.savePrompt(prompt('poem', { tags: ['fun'] }));
+
+    expect(await adapter.listPrompts({ tags: ['code'] })).toMatchObject([
+      { id: 'review', version: 2 },
+    ]);
+    expect(await adapter.listPrompts({ tags: ['code'] }, true)).toHaveLength(2);
+  });
+
+  it('should clear helpers and assets with everything else', async () => {
+    if (!isConnected) return;
+    const assetId = 'a'.repeat(64);
+    await adapter.savePrompt(prompt('review'));
+    await adapter.saveHelper({ format: '[{0}]', name: 'bracket', type: 'format' });
+    await adapter.saveAsset(assetId, Buffer.from('image'));
+
+    await adapter.clearAll();
+
+    expect(await adapter.listPrompts()).toEqual([]);
+    expect(await adapter.listHelpers()).toEqual([]);
+    expect(await adapter.getAsset(assetId)).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+import { jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { MemoryCache, RedisCache } from '../../src/cache.js';
+import { PromptService } from '../../src/prompt-service.js';
+import { HandlebarsTemplatingEngine } from '../../src/template-engines.js';
+
+/**
+ * Enough of a Redis server for RedisCache: strings, sets, SCAN MATCH on prefixes and pub/sub
+ * between the clients of one server
+ */
+class FakeRedis extends EventEmitter {
+  public constructor(
+    private readonly data = new Map<string, string | Set<string>>(),
+    private readonly clients = new Set<FakeRedis>(),
+  ) {
+    super();
+    clients.add(this);
+  }
+
+  public duplicate() {
+    return new FakeRedis(this.data, this.clients);
+  }
+
+  public async get(key: string) {
+    const value = this.data.get(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  public async sadd(key: string, ...members: string[]) {
+    const set = this.data.get(key);
+    this.data.set(key, new Set([...(set instanceof Set ? set : []), ...members]));
+    return members.length;
+  }
+
+  public async smembers(key: string) {
+    const set = this.data.get(key);
+    return set instanceof Set ? Array.from(set) : [];
+  }
+
+  public async set(key: string, value: string) {
+    this.data.set(key, value);
+    return 'OK';
+  }
+
+  public async scan(_cursor: string, _match: string, pattern: string) {
+    const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+    return ['0', Array.from(this.data.keys()).filter(key => key.startsWith(prefix))];
+  }
+
+  public async del(...keys: string[]) {
+    keys.forEach(key => this.data.delete(key));
+    return keys.length;
+  }
+
+  public async subscribe(channel: string) {
+    this.on(`subscribed:${channel}`, message => this.emit('message', channel, message));
+  }
+
+  public async publish(channel: string, message: string) {
+    this.clients.forEach(client => client.emit(`subscribed:${channel}`, message));
+    return this.clients.size;
+  }
+
+  public async quit() {
+    this.clients.delete(this);
+  }
+}
+
+describe('MemoryCache', () => {
+  it('should evict the least recently used entries', async () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe(3);
+  });
+
+  it('should expire entries after their ttl', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = new MemoryCache({ ttl: 60 });
+    await cache.set('a', 1);
+
+    now.mockReturnValue(60_000);
+    expect(await cache.get('a')).toBe(1);
+    now.mockReturnValue(60_001);
+    expect(await cache.get('a')).toBeUndefined();
+    now.mockRestore();
+  });
+
+  it('should keep every member added to a set at once', async () => {
+    const cache = new MemoryCache();
+
+    await Promise.all(['a', 'b', 'c'].map(member => cache.addToSet('dependents:x', [member])));
+
+    expect(await cache.getSet('dependents:x')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should invalidate by prefix and copy values', async () => {
+    const cache = new MemoryCache();
+    const value = { list: [1] };
+    await cache.set('prompt:a:v1', value);
+    await cache.set('prompt:a:v2', value);
+    await cache.set('prompt:ab:v1', value);
+    value.list.push(2);
+
+    await cache.invalidate(['prompt:a:']);
+
+    expect(await cache.get('prompt:a:v1')).toBeUndefined();
+    expect(await cache.get('prompt:a:v2')).toBeUndefined();
+    expect(await cache.get('prompt:ab:v1')).toEqual({ list: [1] });
+  });
+});
+
+describe('RedisCache', () => {
+  it('should share entries and invalidations between instances', async () => {
+    const server = new FakeRedis();
+    const first = new RedisCache(server as unknown as Redis);
+    const second = new RedisCache(server.duplicate() as unknown as Redis);
+    await first.connect();
+    await second.connect();
+
+    await first.set('prompt:a:v1', { content: 'Hello' });
+    expect(await second.get('prompt:a:v1')).toEqual({ content: 'Hello' });
+
+    // The second instance now holds the entry in memory, until the first invalidates it
+    await first.invalidate(['prompt:a:']);
+    expect(await server.get('mcp-prompts:prompt:a:v1')).toBeNull();
+    expect(await second.get('prompt:a:v1')).toBeUndefined();
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should keep every member added to a set at once', async () => {
+    const server = new FakeRedis();
+    const cache = new RedisCache(server as unknown as Redis);
+
+    await Promise.all(['a', 'b', 'c'].map(member => cache.addToSet('dependents:x', [member])));
+
+    expect((await cache.getSet('dependents:x')).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should ignore malformed invalidation messages', async () => {
+    const server = new FakeRedis();
+    const cache = new RedisCache(server as unknown as Redis);
+    await cache.connect();
+    await cache.set('prompt:a:v1', 'Hello');
+
+    await server.publish('mcp-prompts:invalidate', 'not json');
+    await server.publish('mcp-prompts:invalidate', '{"prefixes": 1}');
+    await server.publish('mcp-prompts:invalidate', JSON.stringify(['prompt:a:']));
+
+    expect(await cache.get('prompt:a:v1')).toBe('Hello');
+    await cache.close();
+  });
+});
+
+describe('PromptService caching', () => {
+  let adapter: MemoryAdapter;
+  let service: PromptService;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter);
+    await service.createPrompt({
+      content: 'Hello {{name}}, {{> footer}}',
+      id: 'greeting',
+      isTemplate: true,
+      name: 'Greeting',
+      variables: ['name'],
+    });
+    await service.createPrompt({
+      content: 'regards',
+      id: 'footer',
+      isTemplate: true,
+      name: 'Footer',
+    });
+  });
+
+  it('should reuse renders with the same variables', async () => {
+    const getPrompt = jest.spyOn(adapter, 'getPrompt');
+
+    const first = await service.applyTemplate('greeting', { name: 'Ada' });
+    const second = await service.applyTemplate('greeting', { name: 'Ada' });
+    const other = await service.applyTemplate('greeting', { name: 'Alan' });
+
+    expect(second).toEqual(first);
+    expect(other.content).toBe('Hello Alan, regards');
+    // The greeting and its footer, once each
+    expect(getPrompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate every cached version of an updated prompt', async () => {
+    await service.getPrompt('greeting', 1);
+    await service.applyTemplate('greeting', { name: 'Ada' }, 1);
+
+    await service.updatePrompt('greeting', 1, { content: 'Hi {{name}}' });
+
+    expect((await service.getPrompt('greeting', 1))?.content).toBe('Hi {{name}}');
+    expect((await service.applyTemplate('greeting', { name: 'Ada' }, 1)).content).toBe('Hi Ada');
+  });
+
+  it('should invalidate renders that include an updated partial', async () => {
+    await service.applyTemplate('greeting', { name: 'Ada' });
+
+    await service.updatePrompt('footer', 1, { content: 'cheers' });
+
+    expect((await service.applyTemplate('greeting', { name: 'Ada' })).content).toBe(
+      'Hello Ada, cheers',
+    );
+  });
+
+  it('should render prompts another instance updated', async () => {
+    const cache = new MemoryCache();
+    const first = new PromptService(adapter, undefined, cache);
+    const second = new PromptService(adapter, undefined, cache);
+    await first.applyTemplate('greeting', { name: 'Ada' });
+
+    await second.updatePrompt('greeting', 1, { content: 'Hi {{name}}' });
+
+    expect((await first.applyTemplate('greeting', { name: 'Ada' })).content).toBe('Hi Ada');
+  });
+
+  it('should drop every cached render', async () => {
+    const render = jest.spyOn(HandlebarsTemplatingEngine.prototype, 'render');
+    await service.applyTemplate('greeting', { name: 'Ada' });
+
+    await service.invalidateRenders();
+    await service.applyTemplate('greeting', { name: 'Ada' });
+
+    expect(render).toHaveBeenCalledTimes(2);
+    render.mockRestore();
+  });
+});
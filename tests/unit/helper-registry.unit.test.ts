@@ -0,0 +1,154 @@
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { NotFoundError, ValidationError } from '../../src/errors.js';
+import { HelperRegistry } from '../../src/helper-registry.js';
+import { PromptService } from '../../src/prompt-service.js';
+import { HandlebarsTemplatingEngine } from '../../src/template-engines.js';
+
+const MODULES: Record<string, string> = {
+  'dates.js': `
+    const addDays = (date, days) => {
+      const result = new Date(date);
+      result.setUTCDate(result.getUTCDate() + days);
+      return result.toISOString().slice(0, 10);
+    };
+    addDays.description = 'Adds days to an ISO date';
+    module.exports = { addDays, escape: () => typeof process };
+  `,
+  'loop.js': 'module.exports = () => { for (;;) {} };',
+  'slugify.cjs': `
+    module.exports = text => String(text).toLowerCase().trim().replace(/[^a-z0-9]+/g, '-');
+  `,
+  'toUpperCase.js': 'module.exports = () => "not the built-in";',
+};
+
+describe('HelperRegistry', () => {
+  let directory: string;
+  let adapter: MemoryAdapter;
+  let registry: HelperRegistry;
+  let service: PromptService;
+
+  const render = async (content: string, variables: Record<string, unknown> = {}) => {
+    const id = `prompt-${Math.random().toString(36).slice(2)}`;
+    await service.createPrompt({
+      content,
+      id,
+      isTemplate: true,
+      name: id,
+      variables: Object.keys(variables),
+    });
+    return (await service.applyTemplate(id, variables)).content;
+  };
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'helpers-'));
+    for (const [file, source] of Object.entries(MODULES)) {
+      await fs.writeFile(path.join(directory, file), source);
+    }
+  });
+
+  afterAll(() => fs.rm(directory, { force: true, recursive: true }));
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    adapter = new MemoryAdapter();
+    await adapter.connect();
+    registry = new HelperRegistry(adapter, { directory, timeout: 20 });
+    await registry.load();
+    service = new PromptService(adapter, new HandlebarsTemplatingEngine(registry));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should call helper modules from templates', async () => {
+    const content = await render('{{slugify title}} due {{addDays date 30}}', {
+      date: '2026-01-15',
+      title: ' Quarterly Report ',
+    });
+
+    expect(content).toBe('quarterly-report due 2026-02-14');
+  });
+
+  it('should run helpers without access to the process and with a time limit', async () => {
+    expect(await render('{{escape}}')).toBe('undefined');
+    await expect(render('{{loop}}')).rejects.toThrow("Helper 'loop' failed: took longer than 20ms");
+  });
+
+  it('should not let modules replace built-in helpers', async () => {
+    expect(await render('{{toUpperCase "a"}}')).toBe('A');
+    expect(console.warn).toHaveBeenCalledWith(
+      "Helper 'toUpperCase' from toUpperCase.js was not loaded: the name is taken.",
+    );
+  });
+
+  it('should define, store and reload declarative helpers', async () => {
+    await registry.saveHelper({
+      name: 'redact',
+      pattern: '\\d{4}(?=\\d{4})',
+      replacement: '****',
+      type: 'replace',
+    });
+    await registry.saveHelper({
+      fallback: 'unknown',
+      name: 'region',
+      table: { de: 'Europe', us: 'Americas' },
+      type: 'lookup',
+    });
+    await registry.saveHelper({ format: '{0} ({unit})', name: 'measure', type: 'format' });
+
+    const reloaded = new HelperRegistry(adapter);
+    await reloaded.load();
+    service = new PromptService(adapter, new HandlebarsTemplatingEngine(reloaded));
+
+    expect(
+      await render('{{redact card}} {{region "de"}} {{region "fr"}} {{measure 5 unit="kg"}}', {
+        card: '12345678',
+      }),
+    ).toBe('****5678 Europe unknown 5 (kg)');
+  });
+
+  it('should reject invalid definitions and names that are taken', async () => {
+    await expect(
+      registry.saveHelper({ name: 'broken', pattern: '(', replacement: '', type: 'replace' }),
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      registry.saveHelper({ format: '{0}', name: 'slugify', type: 'format' }),
+    ).rejects.toThrow("Helper 'slugify' is already defined.");
+    await expect(
+      registry.saveHelper({ format: '{0}', name: 'each', type: 'format' }),
+    ).rejects.toThrow(ValidationError);
+    await expect(registry.deleteHelper('slugify')).rejects.toThrow(NotFoundError);
+    expect(await adapter.listHelpers()).toEqual([]);
+  });
+
+  it('should list helpers with where they come from', async () => {
+    await registry.saveHelper({ format: '{0}!', name: 'shout', type: 'format' });
+    await registry.deleteHelper('shout');
+    await registry.saveHelper({ format: '{0}?', name: 'ask', type: 'format' });
+
+    const helpers = registry.list();
+
+    expect(helpers).toContainEqual({ name: 'formatDate', source: 'built-in' });
+    expect(helpers.filter(helper => helper.source !== 'built-in')).toEqual([
+      {
+        description: 'Adds days to an ISO date',
+        module: 'dates.js',
+        name: 'addDays',
+        source: 'module',
+      },
+      {
+        definition: { format: '{0}?', name: 'ask', type: 'format' },
+        description: undefined,
+        name: 'ask',
+        source: 'declarative',
+      },
+      { description: undefined, module: 'dates.js', name: 'escape', source: 'module' },
+      { description: undefined, module: 'loop.js', name: 'loop', source: 'module' },
+      { description: undefined, module: 'slugify.cjs', name: 'slugify', source: 'module' },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { MemoryAdapter } from '../../src/adapters.js';
+import { ValidationError } from '../../src/errors.js';
+import { localeFallbacks } from '../../src/locales.js';
+import { PromptService } from '../../src/prompt-service.js';
+
+describe('localeFallbacks', () => {
+  it('should drop subtags from the end of the canonical locale', () => {
+    expect(localeFallbacks('cs-cz')).toEqual(['cs-CZ', 'cs']);
+    expect(localeFallbacks('zh-hant-tw-u-nu-hanidec')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh']);
+  });
+
+  it('should reject invalid locales', () => {
+    expect(() => localeFallbacks('not a locale')).toThrow(ValidationError);
+  });
+});
+
+describe('PromptService translations', () => {
+  let service: PromptService;
+
+  beforeEach(async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter);
+    await service.createPrompt({
+      content: 'Kind regards',
+      id: 'signature',
+      isTemplate: true,
+      locale: 'en',
+      name: 'Signature',
+      translations: { cs: { content: 'S pozdravem' } },
+    });
+    await service.createPrompt({
+      content: 'Hello {{name}}. {{> signature}}',
+      description: 'Greets the user',
+      id: 'greeting',
+      isTemplate: true,
+      locale: 'en',
+      name: 'Greeting',
+      translations: {
+        cs: { content: 'Dobrý den, {{name}}. {{> signature}}', description: 'Pozdrav' },
+        'de-de': { content: 'Hallo {{name}}. {{> signature}}' },
+      },
+      variables: ['name'],
+    });
+  });
+
+  it('should render the closest locale, falling back to the prompt itself', async () => {
+    const render = (locale: string) =>
+      service.applyTemplate('greeting', { name: 'Eva' }, undefined, { locale });
+
+    expect(await render('cs-CZ')).toMatchObject({
+      content: 'Dobrý den, Eva. S pozdravem',
+      locale: 'cs',
+    });
+    expect(await render('de-DE')).toMatchObject({
+      content: 'Hallo Eva. Kind regards',
+      locale: 'de-DE',
+    });
+    expect(await render('de')).toMatchObject({ content: 'Hello Eva. Kind regards', locale: 'en' });
+    expect((await service.applyTemplate('greeting', { name: 'Eva' })).locale).toBeUndefined();
+  });
+
+  it('should get prompts in a locale', async () => {
+    const prompt = await service.getPrompt('greeting', undefined, 'cs');
+
+    expect(prompt).toMatchObject({
+      content: 'Dobrý den, {{name}}. {{> signature}}',
+      description: 'Pozdrav',
+      locale: 'cs',
+    });
+  });
+
+  it('should list covered locales and translations older than the content', async () => {
+    await service.updatePrompt('greeting', 1, {
+      content: 'Hi {{name}}. {{> signature}}',
+      translations: {
+        cs: { content: 'Dobrý den, {{name}}. {{> signature}}', description: 'Pozdrav' },
+        'de-DE': { content: 'Hallo {{name}}! {{> signature}}' },
+      },
+    });
+
+    const [greeting] = await service.listPrompts({ search: 'Greeting' });
+
+    expect(greeting.localization).toEqual({
+      locales: ['en', 'cs', 'de-DE'],
+      stale: [{ locale: 'cs', sourceVersion: 1 }],
+    });
+  });
+
+  it('should lint translations like the prompt content', async () => {
+    await expect(
+      service.updatePrompt('greeting', 1, { translations: { cs: { content: 'Ahoj {{jmeno}}' } } }),
+    ).rejects.toThrow("Translation 'cs': Variable 'jmeno' is used in the template");
+  });
+});
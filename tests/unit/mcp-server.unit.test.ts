@@ -0,0 +1,788 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  type ClientCapabilities,
+  ElicitRequestSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { createMcpServer, type McpServerServices } from '../../src/mcp-server.js';
+import { PromptService } from '../../src/prompt-service.js';
+import { SequenceApplication } from '../../src/sequence-service.js';
+import { defaultTemplatingEngine } from '../../src/template-engines.js';
+import {
+  loadWorkflowFromFile,
+  saveWorkflowToFile,
+  WorkflowApplication,
+} from '../../src/workflow-service.js';
+
+describe('MCP server', () => {
+  let storage: MemoryAdapter;
+  let promptService: PromptService;
+  let services: McpServerServices;
+  let mcpServer: McpServer;
+  let client: Client;
+
+  const connect = async (capabilities: ClientCapabilities = {}) => {
+    const server = createMcpServer(services);
+    const connected = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), connected.connect(clientTransport)]);
+    return { client: connected, server };
+  };
+
+  beforeEach(async () => {
+    storage = new MemoryAdapter();
+    await storage.connect();
+    promptService = new PromptService(storage, defaultTemplatingEngine);
+    await promptService.createPrompt({
+      content: 'Review this {{language}} code:\n{{code}}',
+      description: 'Code review template',
+      id: 'code-review',
+      isTemplate: true,
+      name: 'Code Review',
+      variables: [
+        { name: 'language', options: ['Go', 'Python', 'TypeScript'], required: true },
+        { name: 'code', description: 'The code to review', required: true },
+      ],
+    });
+    await promptService.createPrompt({
+      content: 'You are a helpful assistant.',
+      id: 'assistant',
+      isTemplate: false,
+      name: 'Assistant',
+    });
+
+    const sequenceService = new SequenceApplication(storage);
+    await sequenceService.createSequence({
+      id: 'review-flow',
+      name: 'Review Flow',
+      promptIds: ['assistant', 'code-review'],
+    });
+
+    const workflowService = new WorkflowApplication(storage, promptService as any);
+
+    services = { promptService, sequenceService, workflowService };
+    ({ client, server: mcpServer } = await connect());
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await mcpServer.close();
+  });
+
+  describe('prompts/list', () => {
+    it('should list stored prompts with template arguments', async () => {
+      const { prompts } = await client.listPrompts();
+
+      expect(prompts.map(p => p.name).sort()).toEqual(['assistant', 'code-review']);
+      const review = prompts.find(p => p.name === 'code-review');
+      expect(review?.arguments).toEqual([
+        { name: 'language', required: true },
+        { description: 'The code to review', name: 'code', required: true },
+      ]);
+      expect(review?._meta).toEqual({
+        arguments: { language: { options: ['Go', 'Python', 'TypeScript'] } },
+      });
+    });
+  });
+
+  describe('prompts/get', () => {
+    it('should render a template with the given arguments', async () => {
+      const result = await client.getPrompt({
+        arguments: { code: 'console.log(a);', language: 'TypeScript' },
+        name: 'code-review',
+      });
+
+      expect(result.description).toBe('Code review template');
+      expect(result.messages).toEqual([
+        {
+          content: { text: 'Review this TypeScript code:\nconsole.log(a);', type: 'text' },
+          role: 'user',
+        },
+      ]);
+    });
+
+    it('should return a plain prompt as-is', async () => {
+      const result = await client.getPrompt({ name: 'assistant' });
+      expect(result.messages[0].content).toEqual({
+        text: 'You are a helpful assistant.',
+        type: 'text',
+      });
+    });
+
+    it('should return one message per chat message', async () => {
+      await client.callTool({
+        arguments: {
+          isTemplate: true,
+          messages: [
+            { content: 'You translate to {{language}}.', role: 'system' },
+            { content: 'Good morning', role: 'user' },
+            { content: 'Translation:', role: 'assistant' },
+          ],
+          name: 'Translate',
+          variables: ['language'],
+        },
+        name: 'add_prompt',
+      });
+
+      const result = await client.getPrompt({
+        arguments: { language: 'Czech' },
+        name: 'translate',
+      });
+      expect(result.messages).toEqual([
+        { content: { text: 'You translate to Czech.', type: 'text' }, role: 'user' },
+        { content: { text: 'Good morning', type: 'text' }, role: 'user' },
+        { content: { text: 'Translation:', type: 'text' }, role: 'assistant' },
+      ]);
+    });
+
+    it('should embed images, prompts and resource files as separate messages', async () => {
+      const resourcesDir = path.resolve('data/resources');
+      const guideFile = `review-guide-${process.pid}.md`;
+      fs.mkdirSync(resourcesDir, { recursive: true });
+      fs.writeFileSync(path.join(resourcesDir, guideFile), '# Review guide');
+
+      try {
+        await promptService.createPrompt({
+          isTemplate: false,
+          messages: [
+            {
+              content: 'Review the attached diagram.',
+              parts: [
+                { data: 'iVBORw0KGgo=', mimeType: 'image/png', type: 'image' },
+                { type: 'resource', uri: 'prompt://assistant' },
+                { type: 'resource', uri: `file://${guideFile}` },
+              ],
+              role: 'user',
+            },
+          ],
+          name: 'Diagram Review',
+        });
+
+        const result = await client.getPrompt({ name: 'diagram-review' });
+        expect(result.messages.map(m => m.content)).toEqual([
+          { text: 'Review the attached diagram.', type: 'text' },
+          { data: 'iVBORw0KGgo=', mimeType: 'image/png', type: 'image' },
+          {
+            resource: {
+              mimeType: 'text/plain',
+              text: 'You are a helpful assistant.',
+              uri: 'prompt://assistant',
+            },
+            type: 'resource',
+          },
+          {
+            resource: {
+              mimeType: 'text/markdown',
+              text: '# Review guide',
+              uri: `file://${guideFile}`,
+            },
+            type: 'resource',
+          },
+        ]);
+      } finally {
+        fs.unlinkSync(path.join(resourcesDir, guideFile));
+      }
+    });
+
+    it('should keep images in storage and only a reference in the prompt', async () => {
+      const data = 'iVBORw0KGgo=';
+      const asset = createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex');
+      await promptService.createPrompt({
+        isTemplate: false,
+        messages: [
+          {
+            content: 'Describe the image.',
+            parts: [{ data, mimeType: 'image/png', type: 'image' }],
+            role: 'user',
+          },
+        ],
+        name: 'Describe Image',
+      });
+
+      expect((await storage.getPrompt('describe-image'))?.messages?.[0].parts).toEqual([
+        { asset, mimeType: 'image/png', type: 'image' },
+      ]);
+      expect((await storage.getAsset(asset))?.toString('base64')).toBe(data);
+      const result = await client.getPrompt({ name: 'describe-image' });
+      expect(result.messages[1].content).toEqual({ data, mimeType: 'image/png', type: 'image' });
+    });
+
+    it('should not store the images of rejected prompts', async () => {
+      const data = 'iVBORw0KGgo=';
+      const asset = createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex');
+      const messages = [
+        {
+          content: 'Describe the image.',
+          parts: [{ data, mimeType: 'image/png', type: 'image' as const }],
+          role: 'user' as const,
+        },
+      ];
+
+      await expect(
+        promptService.createPrompt({
+          isTemplate: false,
+          messages,
+          name: 'Describe Image',
+          outputSchema: { type: 'record' },
+        }),
+      ).rejects.toThrow(/Invalid output schema/);
+      await expect(
+        promptService.updatePrompt('assistant', 1, { messages, outputSchema: { type: 'record' } }),
+      ).rejects.toThrow(/Invalid output schema/);
+
+      expect(await storage.getAsset(asset)).toBeNull();
+    });
+
+    it('should refuse resource files outside the resources directory', async () => {
+      fs.mkdirSync('data/resources', { recursive: true });
+      await promptService.createPrompt({
+        isTemplate: false,
+        messages: [
+          {
+            content: 'Read this.',
+            parts: [{ type: 'resource', uri: 'file://../missing.json' }],
+            role: 'user',
+          },
+        ],
+        name: 'Escape',
+      });
+
+      await expect(client.getPrompt({ name: 'escape' })).rejects.toThrow(
+        /outside the resources directory/,
+      );
+    });
+
+    it('should reject unknown prompts', async () => {
+      await expect(client.getPrompt({ name: 'missing' })).rejects.toThrow(
+        /Prompt not found: missing/,
+      );
+    });
+  });
+
+  describe('tools', () => {
+    const parse = (result: Awaited<ReturnType<Client['callTool']>>) =>
+      JSON.parse((result.content as { text: string }[])[0].text);
+
+    it('should list the prompt and workflow tools', async () => {
+      const { tools } = await client.listTools();
+      expect(tools.map(t => t.name).sort()).toEqual([
+        'add_prompt',
+        'apply_template',
+        'delete_prompt',
+        'get_prompt_versions',
+        'get_workflow_state',
+        'list_prompts',
+        'resume_workflow',
+        'run_workflow',
+        'update_prompt',
+      ]);
+    });
+
+    it('should add and update a prompt', async () => {
+      const added = await client.callTool({
+        arguments: {
+          content: 'Hello {{name}}',
+          isTemplate: true,
+          name: 'Greeting',
+          variables: ['name'],
+        },
+        name: 'add_prompt',
+      });
+      expect(added.isError).toBeFalsy();
+      expect(parse(added)).toMatchObject({ id: 'greeting', version: 1 });
+
+      const updated = await client.callTool({
+        arguments: { description: 'Says hello', id: 'greeting', version: 1 },
+        name: 'update_prompt',
+      });
+      expect(parse(updated)).toMatchObject({
+        content: 'Hello {{name}}',
+        description: 'Says hello',
+        variables: ['name'],
+      });
+
+      const versions = await client.callTool({
+        arguments: { id: 'greeting' },
+        name: 'get_prompt_versions',
+      });
+      expect(parse(versions)).toEqual({ id: 'greeting', versions: [1] });
+    });
+
+    it('should apply a template', async () => {
+      const result = await client.callTool({
+        arguments: { id: 'code-review', variables: { code: 'x();', language: 'Go' } },
+        name: 'apply_template',
+      });
+      expect(parse(result).content).toBe('Review this Go code:\nx();');
+    });
+
+    it('should report invalid template variables as a VALIDATION_ERROR tool error', async () => {
+      const result = await client.callTool({
+        arguments: { id: 'code-review', variables: { language: 'Rust' } },
+        name: 'apply_template',
+      });
+      expect(result.isError).toBe(true);
+      expect(parse(result).error.details.map((d: { path: string[] }) => d.path)).toEqual([
+        ['variables', 'language'],
+        ['variables', 'code'],
+      ]);
+    });
+
+    it('should list prompts', async () => {
+      const result = await client.callTool({ arguments: {}, name: 'list_prompts' });
+      expect(
+        parse(result)
+          .map((p: { id: string }) => p.id)
+          .sort(),
+      ).toEqual(['assistant', 'code-review']);
+    });
+
+    it('should map a missing prompt to a NOT_FOUND tool error', async () => {
+      const result = await client.callTool({ arguments: { id: 'missing' }, name: 'delete_prompt' });
+      expect(result.isError).toBe(true);
+      expect(parse(result).error.code).toBe('NOT_FOUND');
+    });
+
+    it('should map template validation failures to a VALIDATION_ERROR tool error', async () => {
+      const result = await client.callTool({
+        arguments: { content: 'Review {{other}}', id: 'code-review', version: 1 },
+        name: 'update_prompt',
+      });
+      expect(result.isError).toBe(true);
+      expect(parse(result).error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('resources', () => {
+    it('should list prompts and sequences as resources', async () => {
+      const { resources } = await client.listResources();
+      const uris = resources.map(r => r.uri);
+      expect(uris).toEqual(
+        expect.arrayContaining([
+          'prompt://assistant',
+          'prompt://code-review',
+          'sequence://review-flow',
+        ]),
+      );
+      expect(resources.find(r => r.uri === 'prompt://code-review')).toMatchObject({
+        mimeType: 'text/plain',
+        title: 'Code Review',
+      });
+    });
+
+    it('should publish resource templates', async () => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+        'prompt://{id}',
+        'prompt://{id}/v{version}',
+        'sequence://{id}',
+        'workflow://{id}',
+        'workflow://{id}/v{version}',
+      ]);
+    });
+
+    it('should read prompt text by latest and pinned version', async () => {
+      const latest = await client.readResource({ uri: 'prompt://assistant' });
+      expect(latest.contents).toEqual([
+        { mimeType: 'text/plain', text: 'You are a helpful assistant.', uri: 'prompt://assistant' },
+      ]);
+      const pinned = await client.readResource({ uri: 'prompt://assistant/v1' });
+      expect(pinned.contents[0].text).toBe('You are a helpful assistant.');
+    });
+
+    it('should read a sequence as JSON', async () => {
+      const { contents } = await client.readResource({ uri: 'sequence://review-flow' });
+      expect(contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(contents[0].text as string)).toMatchObject({
+        id: 'review-flow',
+        promptIds: ['assistant', 'code-review'],
+      });
+    });
+
+    it('should reject unknown resources', async () => {
+      await expect(client.readResource({ uri: 'prompt://missing' })).rejects.toThrow(
+        /Resource not found/,
+      );
+      await expect(client.readResource({ uri: 'https://example.com' })).rejects.toThrow(
+        /Resource not found/,
+      );
+    });
+
+    it('should not read workflows outside the workflow directory', async () => {
+      const outside = path.resolve(process.cwd(), 'data', `outside-${process.pid}-v1.json`);
+      fs.writeFileSync(outside, '{"id": "outside"}');
+      try {
+        await expect(
+          client.readResource({ uri: `workflow://..%2Foutside-${process.pid}/v1` }),
+        ).rejects.toThrow(/Resource not found/);
+      } finally {
+        fs.unlinkSync(outside);
+      }
+      await expect(client.readResource({ uri: 'workflow://%E0%A4%A/v1' })).rejects.toThrow(
+        /Resource not found/,
+      );
+    });
+
+    it('should not take the files of workflows whose ids start with the id', async () => {
+      const id = `shared-${process.pid}`;
+      await saveWorkflowToFile({ id, name: 'Shared', steps: [], version: 1 });
+      await saveWorkflowToFile({ id: `${id}-vault`, name: 'Vault', steps: [], version: 3 });
+      try {
+        const { contents } = await client.readResource({ uri: `workflow://${id}` });
+        expect(JSON.parse(contents[0].text as string)).toMatchObject({ id, version: 1 });
+      } finally {
+        const dir = path.resolve(process.cwd(), 'data', 'workflows');
+        fs.unlinkSync(path.join(dir, `${id}-v1.json`));
+        fs.unlinkSync(path.join(dir, `${id}-vault-v3.json`));
+      }
+    });
+
+    it('should notify subscribers when a prompt is updated or deleted', async () => {
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+        updated.push(notification.params.uri);
+      });
+      await client.subscribeResource({ uri: 'prompt://assistant' });
+      await client.subscribeResource({ uri: 'prompt://assistant/v1' });
+
+      await promptService.updatePrompt('assistant', 1, { content: 'You are terse.' });
+      await promptService.deletePrompt('code-review');
+      await promptService.deletePrompt('assistant');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(updated).toEqual([
+        'prompt://assistant',
+        'prompt://assistant/v1',
+        'prompt://assistant',
+        'prompt://assistant/v1',
+      ]);
+    });
+
+    it('should notify subscribers when a sequence or workflow changes', async () => {
+      const workflowId = `mcp-subscribe-${process.pid}`;
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+        updated.push(notification.params.uri);
+      });
+      await client.subscribeResource({ uri: 'sequence://review-flow' });
+      await client.subscribeResource({ uri: `workflow://${workflowId}` });
+
+      await services.sequenceService.deleteSequence('review-flow');
+      await saveWorkflowToFile({ id: workflowId, name: 'Review', steps: [], version: 1 });
+      fs.unlinkSync(path.resolve(process.cwd(), 'data', 'workflows', `${workflowId}-v1.json`));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(updated).toEqual(['sequence://review-flow', `workflow://${workflowId}`]);
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+        updated.push(notification.params.uri);
+      });
+      await client.subscribeResource({ uri: 'prompt://assistant' });
+      await client.unsubscribeResource({ uri: 'prompt://assistant' });
+
+      await promptService.updatePrompt('assistant', 1, { content: 'You are terse.' });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(updated).toEqual([]);
+    });
+  });
+
+  describe('completion/complete', () => {
+    const complete = (name: string, value: string) =>
+      client.complete({
+        argument: { name, value },
+        ref: { name: 'code-review', type: 'ref/prompt' },
+      });
+
+    it('should complete template variables from their options', async () => {
+      const { completion } = await complete('language', 'ty');
+      expect(completion.values).toEqual(['TypeScript']);
+    });
+
+    it('should suggest values the client used before', async () => {
+      await client.getPrompt({
+        arguments: { code: 'x();', language: 'Python' },
+        name: 'code-review',
+      });
+      await client.callTool({
+        arguments: { id: 'code-review', variables: { code: 'y();', language: 'Go' } },
+        name: 'apply_template',
+      });
+
+      expect((await complete('code', '')).completion.values).toEqual(['y();', 'x();']);
+    });
+
+    it('should not suggest values other clients used', async () => {
+      const other = await connect();
+      await other.client.getPrompt({
+        arguments: { code: 'secret();', language: 'Go' },
+        name: 'code-review',
+      });
+      await promptService.applyTemplate('code-review', { code: 'y();', language: 'Go' });
+
+      expect((await complete('code', '')).completion.values).toEqual([]);
+      await other.client.close();
+      await other.server.close();
+    });
+
+    it('should return no values for unknown prompts or variables', async () => {
+      expect((await complete('missing', '')).completion.values).toEqual([]);
+      const { completion } = await client.complete({
+        argument: { name: 'language', value: '' },
+        ref: { name: 'missing', type: 'ref/prompt' },
+      });
+      expect(completion.values).toEqual([]);
+    });
+  });
+
+  describe('list_changed notifications', () => {
+    let notifications: string[];
+    const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    beforeEach(() => {
+      notifications = [];
+      client.setNotificationHandler(PromptListChangedNotificationSchema, async n => {
+        notifications.push(n.method);
+      });
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, async n => {
+        notifications.push(n.method);
+      });
+    });
+
+    it('should notify on create, update and delete', async () => {
+      await promptService.createPrompt({ content: 'Hi', isTemplate: false, name: 'Hello' });
+      await settle();
+      await promptService.updatePrompt('hello', 1, { description: 'Greets' });
+      await settle();
+      await promptService.deletePrompt('hello');
+      await settle();
+
+      expect(notifications).toEqual([
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed',
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed',
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed',
+      ]);
+    });
+
+    it('should coalesce bulk changes into one notification', async () => {
+      await promptService.createPromptsBulk([
+        { content: 'A', isTemplate: false, name: 'A' },
+        { content: 'B', isTemplate: false, name: 'B' },
+        { content: 'C', isTemplate: false, name: 'C' },
+      ]);
+      await settle();
+
+      expect(notifications).toEqual([
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed',
+      ]);
+    });
+
+    it('should notify when a prompt is added through a tool', async () => {
+      await client.callTool({
+        arguments: { content: 'Hi', isTemplate: false, name: 'Hello' },
+        name: 'add_prompt',
+      });
+      await settle();
+
+      expect(notifications).toContain('notifications/prompts/list_changed');
+    });
+
+    it('should not notify after the session closes', async () => {
+      await client.close();
+      await promptService.createPrompt({ content: 'Hi', isTemplate: false, name: 'Hello' });
+      await settle();
+
+      expect(notifications).toEqual([]);
+    });
+  });
+
+  describe('workflow tools', () => {
+    const workflowId = `mcp-review-${process.pid}`;
+    const parse = (result: Awaited<ReturnType<Client['callTool']>>) =>
+      JSON.parse((result.content as { text: string }[])[0].text);
+
+    beforeAll(async () => {
+      await saveWorkflowToFile({
+        id: workflowId,
+        name: 'Review then approve',
+        steps: [
+          {
+            id: 'review',
+            input: { code: 'x();', language: '{{context.language}}' },
+            output: 'review',
+            promptId: 'code-review',
+            type: 'prompt',
+          },
+          { id: 'approve', output: 'approval', prompt: 'Ship it?', type: 'human-approval' },
+        ],
+        version: 1,
+      });
+    });
+
+    afterAll(() => {
+      fs.unlinkSync(path.resolve(process.cwd(), 'data', 'workflows', `${workflowId}-v1.json`));
+    });
+
+    it('should run a workflow until approval and report step progress', async () => {
+      const progress: Array<string | undefined> = [];
+      const result = await client.callTool(
+        { arguments: { context: { language: 'Go' }, id: workflowId }, name: 'run_workflow' },
+        undefined,
+        { onprogress: p => progress.push(p.message) },
+      );
+
+      const run = parse(result);
+      expect(run).toMatchObject({ paused: true, prompt: 'Ship it?', stepId: 'approve' });
+      expect(progress).toEqual([
+        'step_started: review',
+        'step_completed: review',
+        'step_started: approve',
+      ]);
+
+      const state = parse(
+        await client.callTool({
+          arguments: { executionId: run.executionId },
+          name: 'get_workflow_state',
+        }),
+      );
+      expect(state).toMatchObject({ currentStepId: 'approve', status: 'paused' });
+      expect(state.context.review).toBe('Review this Go code:\nx();');
+    });
+
+    it('should resume a paused workflow with input', async () => {
+      const run = parse(
+        await client.callTool({
+          arguments: { context: { language: 'Go' }, id: workflowId },
+          name: 'run_workflow',
+        }),
+      );
+
+      const resumed = parse(
+        await client.callTool({
+          arguments: { executionId: run.executionId, input: 'yes' },
+          name: 'resume_workflow',
+        }),
+      );
+      expect(resumed).toMatchObject({ outputs: { approval: 'yes' }, success: true });
+    });
+
+    it('should resume with the workflow version the run started with', async () => {
+      const run = parse(
+        await client.callTool({
+          arguments: { context: { language: 'Go' }, id: workflowId, version: 1 },
+          name: 'run_workflow',
+        }),
+      );
+      const getWorkflow = jest.fn(async () => loadWorkflowFromFile(workflowId, 1));
+      Object.assign(storage, { getWorkflow });
+
+      const resumed = parse(
+        await client.callTool({
+          arguments: { executionId: run.executionId, input: 'yes' },
+          name: 'resume_workflow',
+        }),
+      );
+
+      expect(getWorkflow).toHaveBeenCalledWith(workflowId, 1);
+      expect(resumed).toMatchObject({ outputs: { approval: 'yes' }, success: true });
+    });
+
+    it('should ask for approval through elicitation and finish the run', async () => {
+      const elicited = await connect({ elicitation: {} });
+      const messages: string[] = [];
+      elicited.client.setRequestHandler(ElicitRequestSchema, async request => {
+        messages.push(request.params.message);
+        return { action: 'accept', content: { response: 'approved' } };
+      });
+
+      const run = parse(
+        await elicited.client.callTool({
+          arguments: { context: { language: 'Go' }, id: workflowId },
+          name: 'run_workflow',
+        }),
+      );
+
+      expect(messages).toEqual(['Ship it?']);
+      expect(run).toMatchObject({ outputs: { approval: 'approved' }, success: true });
+      await elicited.client.close();
+    });
+
+    it('should stay paused when the user declines', async () => {
+      const elicited = await connect({ elicitation: {} });
+      elicited.client.setRequestHandler(ElicitRequestSchema, async () => ({ action: 'decline' }));
+
+      const run = parse(
+        await elicited.client.callTool({
+          arguments: { context: { language: 'Go' }, id: workflowId },
+          name: 'run_workflow',
+        }),
+      );
+
+      expect(run).toMatchObject({ paused: true, stepId: 'approve' });
+      expect(run.message).toMatch(/declined/);
+      const state = parse(
+        await elicited.client.callTool({
+          arguments: { executionId: run.executionId },
+          name: 'get_workflow_state',
+        }),
+      );
+      expect(state.status).toBe('paused');
+      await elicited.client.close();
+    });
+
+    it('should stay paused with its execution id when elicitation fails', async () => {
+      const elicited = await connect({ elicitation: {} });
+      elicited.client.setRequestHandler(ElicitRequestSchema, async () => {
+        throw new Error('No one to ask');
+      });
+
+      const run = parse(
+        await elicited.client.callTool({
+          arguments: { context: { language: 'Go' }, id: workflowId },
+          name: 'run_workflow',
+        }),
+      );
+      expect(run).toMatchObject({ paused: true, stepId: 'approve' });
+      expect(run.message).toMatch(/No one to ask/);
+
+      const resumed = parse(
+        await client.callTool({
+          arguments: { executionId: run.executionId, input: 'yes' },
+          name: 'resume_workflow',
+        }),
+      );
+      expect(resumed).toMatchObject({ outputs: { approval: 'yes' }, success: true });
+      await elicited.client.close();
+    });
+
+    it('should report unknown workflows and executions as NOT_FOUND', async () => {
+      const run = await client.callTool({ arguments: { id: 'missing' }, name: 'run_workflow' });
+      expect(run.isError).toBe(true);
+      expect(parse(run).error.code).toBe('NOT_FOUND');
+
+      const state = await client.callTool({
+        arguments: { executionId: 'missing' },
+        name: 'get_workflow_state',
+      });
+      expect(parse(state).error.code).toBe('NOT_FOUND');
+    });
+  });
+});
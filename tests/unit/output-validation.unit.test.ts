@@ -0,0 +1,118 @@
+import { MemoryAdapter } from '../../src/adapters.js';
+import { ValidationError } from '../../src/errors.js';
+import { parseModelOutput, validateOutput } from '../../src/output-validation.js';
+import { PromptService } from '../../src/prompt-service.js';
+
+const contactSchema = {
+  additionalProperties: false,
+  properties: {
+    emails: { items: { format: 'email', type: 'string' }, type: 'array' },
+    name: { type: 'string' },
+  },
+  required: ['name', 'emails'],
+  type: 'object',
+};
+
+describe('parseModelOutput', () => {
+  it('should take JSON out of a code fence and the prose around it', () => {
+    const text =
+      'Here is the contact:\n```json\n{"name": "Ada", "emails": []}\n```\nAnything else?';
+
+    expect(parseModelOutput(text)).toEqual({
+      repairs: ['Removed the Markdown code fence'],
+      value: { emails: [], name: 'Ada' },
+    });
+    expect(parseModelOutput('Sure! {"name": "Ada"} Hope that helps.')).toEqual({
+      repairs: ['Removed text around the JSON'],
+      value: { name: 'Ada' },
+    });
+  });
+
+  it('should repair JSON-like syntax', () => {
+    const { repairs, value } = parseModelOutput(
+      "{name: 'Ada \"the Countess\"', active: True, emails: ['ada@example.com',],",
+    ) as { repairs: string[]; value: unknown };
+
+    expect(value).toEqual({
+      active: true,
+      emails: ['ada@example.com'],
+      name: 'Ada "the Countess"',
+    });
+    expect(repairs).toEqual([
+      'Quoted object keys',
+      'Replaced single quotes with double quotes',
+      'Replaced Python literals',
+      'Removed trailing commas',
+      'Closed unclosed brackets',
+    ]);
+  });
+
+  it('should report responses without JSON', () => {
+    expect(parseModelOutput('I cannot help with that.')).toEqual({
+      error: 'The response contains no JSON object or array',
+      repairs: [],
+    });
+  });
+});
+
+describe('validateOutput', () => {
+  it('should report errors by path', () => {
+    const result = validateOutput(contactSchema, {
+      emails: ['ada@example.com', 42, 'ada'],
+      phone: '555',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(({ keyword, path }) => ({ keyword, path }))).toEqual([
+      { keyword: 'required', path: ['name'] },
+      { keyword: 'additionalProperties', path: ['phone'] },
+      { keyword: 'type', path: ['emails', 1] },
+      { keyword: 'format', path: ['emails', 2] },
+    ]);
+  });
+});
+
+describe('PromptService output schemas', () => {
+  let service: PromptService;
+
+  beforeEach(async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter);
+    await service.createPrompt({
+      content: 'Extract the contact from: {{text}}',
+      id: 'extract-contact',
+      isTemplate: true,
+      name: 'Extract contact',
+      outputSchema: contactSchema,
+      variables: ['text'],
+    });
+  });
+
+  it('should validate responses against the stored schema', async () => {
+    const result = await service.validateOutput(
+      'extract-contact',
+      '```json\n{"name": "Ada", "emails": ["ada@example.com"],}\n```',
+    );
+
+    expect(result).toEqual({
+      errors: [],
+      output: { emails: ['ada@example.com'], name: 'Ada' },
+      repairs: ['Removed the Markdown code fence', 'Removed trailing commas'],
+      valid: true,
+    });
+  });
+
+  it('should expose the schema in MCP prompts', async () => {
+    const prompt = await service.getPrompt('extract-contact');
+    const formatted = await service.formatMcpPrompt(prompt!, { text: 'Ada, ada@example.com' });
+
+    expect(formatted._meta).toEqual({ outputSchema: contactSchema });
+  });
+
+  it('should reject invalid schemas', async () => {
+    await expect(
+      service.updatePrompt('extract-contact', 1, { outputSchema: { type: 'record' } }),
+    ).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,9 +1,12 @@
 import { jest } from '@jest/globals';
+import Handlebars from 'handlebars';
 import type { MockProxy } from 'jest-mock-extended';
 import { mock } from 'jest-mock-extended';
 
 import type { Prompt, StorageAdapter } from '../../src/interfaces.js';
+import { ValidationError } from '../../src/errors.js';
 import { PromptService } from '../../src/prompt-service.js';
+import { HandlebarsTemplatingEngine } from '../../src/template-engines.js';
 
 describe('PromptService Advanced Templating', () => {
   let service: PromptService;
@@ -217,6 +220,44 @@ describe('PromptService Advanced Templating', () => {
 
       const result = await service.applyTemplate('a', {});
       expect(result.content).toBe('A includes B: B includes C: C is the end.');
+      expect(result.dependencies.map(d => d.reference)).toEqual(['b', 'c']);
+    });
+
+    it('should resolve partials pinned to a version or release label', async () => {
+      const headers: Prompt[] = [1, 2, 3].map(version => ({
+        content: `Header v${version}`,
+        createdAt: '',
+        id: 'header',
+        isTemplate: true,
+        metadata: version === 2 ? { labels: ['stable'] } : undefined,
+        name: 'Header',
+        updatedAt: '',
+        version,
+      }));
+      const mainPrompt: Prompt = {
+        content: '{{> header}} | {{> header@1}} | {{> header@stable}}',
+        createdAt: '',
+        id: 'pinned',
+        isTemplate: true,
+        name: 'Pinned',
+        updatedAt: '',
+        version: 1,
+      };
+
+      adapter.getPrompt.mockImplementation(async (id: string, version?: number) => {
+        if (id === 'pinned') return mainPrompt;
+        if (id === 'header') return headers[(version ?? 3) - 1] ?? null;
+        return null;
+      });
+      adapter.listPromptVersions.mockResolvedValue([1, 2, 3]);
+
+      const result = await service.applyTemplate('pinned', {});
+      expect(result.content).toBe('Header v3 | Header v1 | Header v2');
+      expect(result.dependencies).toEqual([
+        { id: 'header', reference: 'header', version: 3 },
+        { id: 'header', reference: 'header@1', version: 1 },
+        { id: 'header', reference: 'header@stable', version: 2 },
+      ]);
     });
 
     it('should handle missing partials gracefully', async () => {
@@ -291,4 +332,354 @@ describe('PromptService Advanced Templating', () => {
       );
     });
   });
+
+  describe('Render Isolation', () => {
+    const page: Prompt = {
+      content: '{{> header }} {{body}}',
+      createdAt: '',
+      id: 'page',
+      isTemplate: true,
+      name: 'Page',
+      updatedAt: '',
+      version: 1,
+    };
+    const header: Prompt = {
+      content: '[{{toUpperCase title}}]',
+      createdAt: '',
+      id: 'header',
+      isTemplate: true,
+      name: 'Header',
+      updatedAt: '',
+      version: 2,
+    };
+
+    beforeEach(() => {
+      adapter.getPrompt.mockImplementation(async (id: string) => {
+        // Yield so that concurrent renders interleave
+        await new Promise(resolve => setImmediate(resolve));
+        if (id === 'page') return page;
+        if (id === 'header') return header;
+        return null;
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep partials of concurrent renders apart', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          service.applyTemplate('page', { body: `body ${i}`, title: `t${i}` }),
+        ),
+      );
+
+      expect(results.map(r => r.content)).toEqual(
+        Array.from({ length: 10 }, (_, i) => `[T${i}] body ${i}`),
+      );
+      expect(Object.keys(Handlebars.partials)).toEqual([]);
+      expect(Object.keys(Handlebars.helpers)).not.toContain('toUpperCase');
+    });
+
+    it('should compile each prompt version once', async () => {
+      const precompile = jest.spyOn(HandlebarsTemplatingEngine.prototype, 'compile');
+
+      await service.applyTemplate('page', { body: 'a', title: 'x' });
+      await service.applyTemplate('page', { body: 'b', title: 'y' });
+
+      expect(precompile).toHaveBeenCalledTimes(2);
+      expect(precompile.mock.calls.map(call => call[0])).toEqual([
+        '[{{toUpperCase title}}]',
+        '{{> header }} {{body}}',
+      ]);
+    });
+  });
+
+  describe('Layouts', () => {
+    const template = (id: string, content: string): Prompt => ({
+      content,
+      createdAt: '',
+      id,
+      isTemplate: true,
+      name: id,
+      updatedAt: '',
+      version: 1,
+    });
+    const base = template(
+      'base-system',
+      [
+        '{{#block "role"}}You are a helpful assistant.{{/block}}',
+        '{{#block "constraints"}}Be concise.{{/block}}',
+        '{{#block "format"}}Answer in Markdown.{{/block}}',
+      ].join('\n'),
+    );
+
+    const usePrompts = (...prompts: Prompt[]) => {
+      adapter.getPrompt.mockImplementation(
+        async (id: string) => prompts.find(p => p.id === id) ?? null,
+      );
+    };
+
+    it('should override individual blocks of a layout', async () => {
+      const child = template(
+        'reviewer',
+        '{{#extends "base-system"}}{{#override "role"}}You review {{language}} code.{{/override}}{{/extends}}',
+      );
+      usePrompts(base, child);
+
+      const result = await service.applyTemplate('reviewer', { language: 'Go' });
+
+      expect(result.content).toBe('You review Go code.\nBe concise.\nAnswer in Markdown.');
+      expect(result.dependencies).toEqual([
+        { id: 'base-system', reference: 'base-system', version: 1 },
+      ]);
+    });
+
+    it('should let the most derived template win along an extends chain', async () => {
+      const strict = template(
+        'strict-system',
+        '{{#extends "base-system"}}{{#override "constraints"}}Never guess.{{/override}}' +
+          '{{#override "format"}}Answer in JSON.{{/override}}{{/extends}}',
+      );
+      const child = template(
+        'strict-reviewer',
+        '{{#extends "strict-system"}}{{#override "format"}}Answer in YAML.{{/override}}{{/extends}}',
+      );
+      usePrompts(base, strict, child);
+
+      const result = await service.applyTemplate('strict-reviewer', {});
+
+      expect(result.content).toBe('You are a helpful assistant.\nNever guess.\nAnswer in YAML.');
+      expect(result.dependencies.map(d => d.reference)).toEqual(['strict-system', 'base-system']);
+    });
+
+    it('should detect cyclic extends chains', async () => {
+      usePrompts(
+        template('layout-a', '{{#extends "layout-b"}}{{/extends}}'),
+        template('layout-b', '{{#extends "layout-a"}}{{/extends}}'),
+      );
+
+      await expect(service.applyTemplate('layout-a', {})).rejects.toThrow(
+        'Recursive partial detected: layout-a -> layout-b -> layout-a',
+      );
+    });
+
+    it('should fail when the layout does not exist', async () => {
+      usePrompts(template('orphan', '{{#extends "missing"}}{{/extends}}'));
+
+      await expect(service.applyTemplate('orphan', {})).rejects.toThrow(
+        "Layout prompt 'missing' not found.",
+      );
+    });
+  });
+
+  describe('Delimiter Styles', () => {
+    const goTemplate: Prompt = {
+      content: 'Write a Go template for ${entity}: {{ .Name }} is ${#if admin}an admin${/if}',
+      createdAt: '',
+      delimiterStyle: 'dollar',
+      id: 'go-template',
+      isTemplate: true,
+      name: 'Go Template',
+      updatedAt: '',
+      version: 1,
+    };
+
+    it('should render custom delimiters and keep literal mustaches', async () => {
+      adapter.getPrompt.mockResolvedValue(goTemplate);
+
+      const result = await service.applyTemplate('go-template', { admin: true, entity: 'users' });
+
+      expect(result.content).toBe('Write a Go template for users: {{ .Name }} is an admin');
+      expect(result.missingVariables).toBeUndefined();
+    });
+
+    it('should report leftover tags in the prompt style', async () => {
+      adapter.getPrompt.mockResolvedValue(goTemplate);
+
+      const result = await service.applyTemplate('go-template', {
+        admin: false,
+        entity: '${table}',
+      });
+
+      expect(result.missingVariables).toEqual(['table']);
+    });
+
+    it('should let partials keep their own style', async () => {
+      const header: Prompt = { ...goTemplate, content: 'Header {{title}}', id: 'header' };
+      delete header.delimiterStyle;
+      const page: Prompt = {
+        ...goTemplate,
+        content: '%{> header} %{body}',
+        delimiterStyle: 'percent',
+        id: 'page',
+      };
+      adapter.getPrompt.mockImplementation(async (id: string) =>
+        id === 'page' ? page : id === 'header' ? header : null,
+      );
+
+      const result = await service.applyTemplate('page', { body: 'B', title: 'T' });
+      expect(result.content).toBe('Header T B');
+    });
+
+    it('should lint variables written with custom delimiters', async () => {
+      const result = await service.lintPrompt({
+        content: '{{ .Literal }} {user.name} {#each items}{title}{/each}',
+        delimiterStyle: 'curly',
+        isTemplate: true,
+        variables: ['user'],
+      });
+
+      expect(result.variables).toEqual(['user', 'items']);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ code: 'undeclared-variable', name: 'items' }),
+      ]);
+    });
+  });
+
+  describe('Chat Messages', () => {
+    const chatPrompt: Prompt = {
+      content: 'system: You review {{language}} code. {{> review-rules }}\n\nuser: {{code}}',
+      createdAt: '',
+      id: 'chat-review',
+      isTemplate: true,
+      messages: [
+        { content: 'You review {{language}} code. {{> review-rules }}', role: 'system' },
+        { content: '{{code}}', role: 'user' },
+        { content: 'Reviewing {{language}}:', role: 'assistant' },
+      ],
+      name: 'Chat Review',
+      updatedAt: '',
+      version: 1,
+    };
+    const rulesPrompt: Prompt = {
+      content: 'Be brief.',
+      createdAt: '',
+      id: 'review-rules',
+      isTemplate: true,
+      name: 'Review Rules',
+      updatedAt: '',
+      version: 1,
+    };
+
+    beforeEach(() => {
+      adapter.getPrompt.mockImplementation(async (id: string) => {
+        if (id === 'chat-review') return chatPrompt;
+        if (id === 'review-rules') return rulesPrompt;
+        return null;
+      });
+    });
+
+    it('should render every message with variables and partials', async () => {
+      const result = await service.applyTemplate('chat-review', {
+        code: 'return x;',
+        language: 'TypeScript',
+      });
+
+      expect(result.messages).toEqual([
+        { content: 'You review TypeScript code. Be brief.', role: 'system' },
+        { content: 'return x;', role: 'user' },
+        { content: 'Reviewing TypeScript:', role: 'assistant' },
+      ]);
+      expect(result.content).toBe(
+        'system: You review TypeScript code. Be brief.\n\nuser: return x;\n\nassistant: Reviewing TypeScript:',
+      );
+    });
+
+    it('should format one MCP message per chat message', async () => {
+      const result = await service.formatMcpPrompt(chatPrompt, {
+        code: 'return x;',
+        language: 'TypeScript',
+      });
+
+      expect(result.messages.map(m => [m.role, m.content.text])).toEqual([
+        ['user', 'You review TypeScript code. Be brief.'],
+        ['user', 'return x;'],
+        ['assistant', 'Reviewing TypeScript:'],
+      ]);
+    });
+
+    it('should drop the messages when only the content is updated', async () => {
+      adapter.updatePrompt.mockImplementation(async (_id, _version, prompt) => prompt as Prompt);
+
+      const updated = await service.updatePrompt('chat-review', 1, { content: 'Review the diff.' });
+
+      expect(updated.content).toBe('Review the diff.');
+      expect(updated.messages).toBeUndefined();
+    });
+  });
+
+  describe('Variable Validation', () => {
+    const reportPrompt: Prompt = {
+      content:
+        '{{title}}: {{count}} items{{#if urgent}}, urgent{{/if}} [{{#each tags}}{{this}} {{/each}}] by {{owner.name}} in {{format}}',
+      createdAt: '',
+      id: 'report',
+      isTemplate: true,
+      name: 'Report',
+      updatedAt: '',
+      variables: [
+        { name: 'title', required: true, type: 'string' },
+        { name: 'count', required: true, type: 'number' },
+        { default: 'false', name: 'urgent', type: 'boolean' },
+        { name: 'tags', type: 'array' },
+        { name: 'owner', type: 'object' },
+        { default: 'markdown', name: 'format', options: ['markdown', 'text'] },
+      ],
+      version: 1,
+    };
+
+    beforeEach(() => {
+      adapter.getPrompt.mockResolvedValue(reportPrompt);
+    });
+
+    it('should coerce values and apply defaults', async () => {
+      const result = await service.applyTemplate('report', {
+        count: '3',
+        owner: '{"name":"Ada"}',
+        tags: 'a, b',
+        title: 'Weekly',
+      });
+
+      expect(result.content).toBe('Weekly: 3 items [a b ] by Ada in markdown');
+      expect(result.appliedVariables).toEqual({
+        count: 3,
+        format: 'markdown',
+        owner: { name: 'Ada' },
+        tags: ['a', 'b'],
+        title: 'Weekly',
+        urgent: false,
+      });
+    });
+
+    it('should accept already typed values', async () => {
+      const result = await service.applyTemplate('report', {
+        count: 2,
+        owner: { name: 'Grace' },
+        tags: ['x'],
+        title: 'Daily',
+        urgent: true,
+      });
+
+      expect(result.content).toBe('Daily: 2 items, urgent [x ] by Grace in markdown');
+    });
+
+    it('should report every invalid variable at once', async () => {
+      const error: ValidationError = await service
+        .applyTemplate('report', { count: 'many', format: 'pdf', owner: '[1]', urgent: 'maybe' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details).toEqual([
+        { message: "Variable 'title' is required.", path: ['variables', 'title'] },
+        { message: "Variable 'count' must be of type number.", path: ['variables', 'count'] },
+        { message: "Variable 'urgent' must be of type boolean.", path: ['variables', 'urgent'] },
+        { message: "Variable 'owner' must be of type object.", path: ['variables', 'owner'] },
+        {
+          message: "Variable 'format' must be one of: markdown, text.",
+          path: ['variables', 'format'],
+        },
+      ]);
+    });
+  });
 });
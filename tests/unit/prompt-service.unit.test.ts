@@ -133,6 +133,9 @@ describe('PromptService', () => {
     };
 
     await expect(service.createPrompt(invalidPromptData)).rejects.toThrow(AppError);
+    await expect(service.createPrompt(invalidPromptData)).rejects.toMatchObject({
+      details: [{ path: ['name'] }, { path: ['content'] }],
+    });
   });
 
   describe('Conditional Templating', () => {
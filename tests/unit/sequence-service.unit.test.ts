@@ -24,6 +24,13 @@ describe('SequenceService', () => {
     expect(Array.isArray(result.prompts)).toBe(true);
   });
 
+  it('should list stored sequences', async () => {
+    await service.createSequence({ id: 'a', name: 'A', promptIds: ['p1'] });
+    await service.createSequence({ id: 'b', name: 'B', promptIds: ['p2'] });
+    const sequences = await service.listSequences();
+    expect(sequences.map(s => s.id).sort()).toEqual(['a', 'b']);
+  });
+
   it('should return not found for unknown sequence', async () => {
     await expect(service.getSequenceWithPrompts('nonexistent')).rejects.toThrow(/not found/i);
   });
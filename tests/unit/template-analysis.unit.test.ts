@@ -0,0 +1,156 @@
+import { MemoryAdapter } from '../../src/adapters.js';
+import { ValidationError } from '../../src/errors.js';
+import { PromptService } from '../../src/prompt-service.js';
+import {
+  analyzeTemplate,
+  findTemplateTags,
+  translateDelimiters,
+} from '../../src/template-analysis.js';
+import { defaultTemplatingEngine } from '../../src/template-engines.js';
+
+const helpers = ['if', 'unless', 'each', 'with', 'lookup', 'toUpperCase', 'eq'];
+
+describe('analyzeTemplate', () => {
+  it('should not treat block keywords, helpers and partials as variables', () => {
+    const analysis = analyzeTemplate(
+      '{{#if urgent}}{{toUpperCase title}}{{else}}{{title}}{{/if}} {{> footer}} {{> header@3}}',
+      helpers,
+    );
+
+    expect(analysis.variables.sort()).toEqual(['title', 'urgent']);
+    expect(analysis.helpers.sort()).toEqual(['if', 'toUpperCase']);
+    expect(analysis.partials).toEqual(['footer', 'header@3']);
+  });
+
+  it('should report nested paths and ignore paths local to each and with blocks', () => {
+    const analysis = analyzeTemplate(
+      [
+        '{{user.name}} {{user.address.city}}',
+        '{{#each items}}{{name}} {{@index}} {{../currency}}{{/each}}',
+        '{{#each rows as |row|}}{{row.id}}{{/each}}',
+        '{{#with settings}}{{theme}}{{/with}}',
+      ].join('\n'),
+      helpers,
+    );
+
+    expect(analysis.variables.sort()).toEqual(['currency', 'items', 'rows', 'settings', 'user']);
+    expect(analysis.paths.sort()).toEqual([
+      'currency',
+      'items',
+      'rows',
+      'settings',
+      'user.address.city',
+      'user.name',
+    ]);
+  });
+
+  it('should collect unknown helpers, including sub-expressions', () => {
+    const analysis = analyzeTemplate('{{shout (trim name)}}', helpers);
+    expect(analysis.unknownHelpers.sort()).toEqual(['shout', 'trim']);
+    expect(analysis.variables).toEqual(['name']);
+  });
+
+  it('should report extended layouts as partials', () => {
+    const analysis = analyzeTemplate(
+      '{{#extends "base@stable"}}{{#override "role"}}{{persona}}{{/override}}{{/extends}}',
+      [...helpers, 'extends', 'override'],
+    );
+
+    expect(analysis.partials).toEqual(['base@stable']);
+    expect(analysis.variables).toEqual(['persona']);
+    expect(analysis.unknownHelpers).toEqual([]);
+  });
+
+  it('should throw on invalid syntax', () => {
+    expect(() => analyzeTemplate('{{#if open}}never closed', helpers)).toThrow();
+  });
+});
+
+describe('translateDelimiters', () => {
+  it('should translate each delimiter style and keep literal mustaches', () => {
+    expect(translateDelimiters('Hi ${name}, {{ .Name }} ${#if x}y${/if}', 'dollar')).toBe(
+      'Hi {{name}}, \\{{ .Name }} {{#if x}}y{{/if}}',
+    );
+    expect(translateDelimiters('%{name} ${name}', 'percent')).toBe('{{name}} ${name}');
+    expect(translateDelimiters('{name} {"a": 1} {{jsx}}', 'curly')).toBe(
+      '{{name}} {"a": 1} \\{{jsx}}',
+    );
+    expect(translateDelimiters('{{name}}', 'double_curly')).toBe('{{name}}');
+  });
+
+  it('should find leftover tags in the chosen style only', () => {
+    expect(findTemplateTags('{{ a }} ${b}', 'dollar')).toEqual(['b']);
+    expect(findTemplateTags('{{ a }} ${b}')).toEqual(['a']);
+  });
+});
+
+describe('PromptService.lintPrompt', () => {
+  let service: PromptService;
+
+  beforeEach(async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter, defaultTemplatingEngine);
+  });
+
+  it('should accept a valid template with blocks and helpers', async () => {
+    const result = await service.lintPrompt({
+      content: '{{#if urgent}}{{toUpperCase title}}{{/if}}',
+      isTemplate: true,
+      variables: ['title', { name: 'urgent', type: 'boolean' }],
+    });
+
+    expect(result).toMatchObject({ issues: [], valid: true, variables: ['urgent', 'title'] });
+  });
+
+  it('should report every kind of issue', async () => {
+    const result = await service.lintPrompt({
+      content: '{{shout other}} {{> missing}}',
+      isTemplate: true,
+      variables: ['unused'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => [i.code, i.severity, i.name])).toEqual([
+      ['undeclared-variable', 'error', 'other'],
+      ['unused-variable', 'warning', 'unused'],
+      ['unknown-helper', 'error', 'shout'],
+      ['missing-partial', 'warning', 'missing'],
+    ]);
+  });
+
+  it('should report syntax errors', async () => {
+    const result = await service.lintPrompt({ content: '{{#if x}}', isTemplate: true });
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'syntax-error', severity: 'error' }),
+    ]);
+  });
+
+  it('should detect cyclic partials', async () => {
+    await service.createPrompt({ content: 'B {{> a}}', id: 'b', isTemplate: true, name: 'B' });
+
+    const result = await service.lintPrompt({ content: 'A {{> b}}', id: 'a', isTemplate: true });
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        code: 'cyclic-partial',
+        message: expect.stringMatching(/a -> b -> a/),
+      }),
+    ]);
+  });
+
+  it('should lint prompts on create and update', async () => {
+    await expect(
+      service.createPrompt({ content: 'Hi {{name}}', isTemplate: true, name: 'Greeting' }),
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    const prompt = await service.createPrompt({
+      content: '{{#each names}}Hi {{this}}{{/each}}',
+      isTemplate: true,
+      name: 'Greeting',
+      variables: ['names'],
+    });
+    await expect(
+      service.updatePrompt(prompt.id, prompt.version, { content: 'Hi {{toUpperCase name}}' }),
+    ).rejects.toThrow("Variable 'name' is used in the template but not declared.");
+  });
+});
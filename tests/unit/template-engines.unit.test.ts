@@ -0,0 +1,277 @@
+import { MemoryAdapter } from '../../src/adapters.js';
+import type { EscapingMode, ITemplatingEngine, TemplateAnalysis } from '../../src/interfaces.js';
+import { analyzeJinja, parseJinja, renderJinja } from '../../src/jinja.js';
+import { PromptService } from '../../src/prompt-service.js';
+import {
+  HandlebarsTemplatingEngine,
+  JinjaTemplatingEngine,
+  MustacheTemplatingEngine,
+} from '../../src/template-engines.js';
+
+const jinja = (template: string, variables: Record<string, unknown> = {}) =>
+  renderJinja(parseJinja(template), variables);
+
+describe('Jinja templates', () => {
+  it('should render expressions, filters and conditionals', () => {
+    expect(
+      jinja('{{ name | upper }} has {{ items | length }} item{{ "s" if items | length != 1 }}', {
+        items: ['a', 'b'],
+        name: 'ada',
+      }),
+    ).toBe('ADA has 2 items');
+    expect(
+      jinja('{% if level > 2 %}senior{% elif level == 2 %}mid{% else %}junior{% endif %}', {
+        level: 2,
+      }),
+    ).toBe('mid');
+    expect(jinja('{{ missing | default("n/a") }} {{ user.name }}', { user: {} })).toBe('n/a ');
+  });
+
+  it('should loop with loop variables, else branches and mapping items', () => {
+    const template = [
+      '{%- for item in items %}{{ loop.index }}. {{ item.title }}{% if not loop.last %}, {% endif %}',
+      '{%- else %}none{% endfor %}',
+      ' | {% for key, value in settings.items() %}{{ key }}={{ value }};{% endfor %}',
+    ].join('');
+
+    expect(
+      jinja(template, { items: [{ title: 'A' }, { title: 'B' }], settings: { a: 1, b: true } }),
+    ).toBe('1. A, 2. B | a=1;b=True;');
+    expect(jinja(template, { items: [], settings: {} })).toBe('none | ');
+  });
+
+  it('should strip whitespace, skip comments and keep raw blocks', () => {
+    expect(jinja('a  {{- " b " -}}  c {# note #}{% raw %}{{ kept }}{% endraw %}')).toBe(
+      'a b c {{ kept }}',
+    );
+  });
+
+  it('should not expose prototype properties', () => {
+    expect(jinja('[{{ user.constructor }}][{{ user.__proto__ }}]', { user: {} })).toBe('[][]');
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parseJinja('line one\n{% if open %}never closed')).toThrow(/line 2/);
+    expect(() => parseJinja('{% macro m() %}{% endmacro %}')).toThrow("unknown tag 'macro'");
+  });
+
+  it('should find variables, filters and references', () => {
+    const analysis: TemplateAnalysis = analyzeJinja(
+      [
+        '{% extends "base@stable" %}',
+        '{% block role %}{{ user.name | title }} {{ tone | shout }}{% endblock %}',
+        '{% set greeting = "hi" %}{{ greeting }}',
+        '{% for item in items %}{{ item.id }} {{ loop.index }}{% endfor %}',
+        '{% include "footer" %}',
+      ].join('\n'),
+    );
+
+    expect(analysis.variables.sort()).toEqual(['items', 'tone', 'user']);
+    expect(analysis.paths.sort()).toEqual(['items', 'tone', 'user.name']);
+    expect(analysis.helpers).toEqual(['title']);
+    expect(analysis.unknownHelpers).toEqual(['shout']);
+    expect(analysis.partials).toEqual(['base@stable', 'footer']);
+  });
+});
+
+describe('MustacheTemplatingEngine', () => {
+  const engine = new MustacheTemplatingEngine();
+  const render = (template: string, variables: Record<string, unknown>) =>
+    engine.render(engine.compile(template), variables, {});
+
+  it('should render sections, inverted sections and enclosing context lookups', () => {
+    expect(
+      render('{{#items}}{{name}} ({{team}}) {{/items}}{{^items}}none{{/items}}', {
+        items: [{ name: 'a' }, { name: 'b' }],
+        team: 'core',
+      }),
+    ).toBe('a (core) b (core) ');
+    expect(render('{{^items}}none{{/items}}', { items: [] })).toBe('none');
+  });
+
+  it('should reject helpers', () => {
+    expect(() => engine.compile('{{#if ready}}go{{/if}}')).toThrow(/unknown helper if/);
+    expect(engine.analyze('{{toUpperCase name}}').unknownHelpers).toEqual(['toUpperCase']);
+  });
+});
+
+describe('PromptService template engines', () => {
+  let service: PromptService;
+
+  beforeEach(async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter);
+  });
+
+  it('should render each prompt with the engine it selects', async () => {
+    await service.createPrompt({
+      content: 'Hello {{ name | capitalize }}{% if urgent %}!{% endif %}',
+      engine: 'jinja',
+      id: 'jinja-greeting',
+      isTemplate: true,
+      name: 'Jinja Greeting',
+      variables: ['name', { name: 'urgent', type: 'boolean' }],
+    });
+    await service.createPrompt({
+      content: '{{#names}}Hi {{.}}. {{/names}}',
+      id: 'mustache-greeting',
+      isTemplate: true,
+      metadata: { engine: 'mustache' },
+      name: 'Mustache Greeting',
+      variables: ['names'],
+    });
+
+    const jinjaResult = await service.applyTemplate('jinja-greeting', {
+      name: 'ada',
+      urgent: 'true',
+    });
+    const mustacheResult = await service.applyTemplate('mustache-greeting', {
+      names: ['Ada', 'Bob'],
+    });
+
+    expect(jinjaResult.content).toBe('Hello Ada!');
+    expect(mustacheResult.content).toBe('Hi Ada. Hi Bob. ');
+  });
+
+  it('should resolve Jinja includes and layouts from stored prompts', async () => {
+    await service.createPrompt({
+      content: '{% block role %}You are helpful.{% endblock %} {% include "rules" %}',
+      engine: 'jinja',
+      id: 'base',
+      isTemplate: true,
+      name: 'Base',
+    });
+    await service.createPrompt({
+      content: 'Answer in {{ language }}.',
+      engine: 'jinja',
+      id: 'rules',
+      isTemplate: true,
+      name: 'Rules',
+      variables: ['language'],
+    });
+    await service.createPrompt({
+      content: '{% extends "base" %}{% block role %}You review {{ language }} code.{% endblock %}',
+      engine: 'jinja',
+      id: 'reviewer',
+      isTemplate: true,
+      name: 'Reviewer',
+      variables: ['language'],
+    });
+
+    const result = await service.applyTemplate('reviewer', { language: 'Go' });
+
+    expect(result.content).toBe('You review Go code. Answer in Go.');
+    expect(result.dependencies.map(d => d.reference)).toEqual(['base', 'rules']);
+  });
+
+  it('should lint templates with their engine', async () => {
+    const result = await service.lintPrompt({
+      content: '{% for item in items %}{{ item | shout }}{% endfor %} {{ total }}',
+      engine: 'jinja',
+      isTemplate: true,
+      variables: ['items'],
+    });
+
+    expect(result.issues.map(i => [i.code, i.name])).toEqual([
+      ['undeclared-variable', 'total'],
+      ['unknown-helper', 'shout'],
+    ]);
+    await expect(
+      service.lintPrompt({ content: 'x', isTemplate: true, metadata: { engine: 'liquid' } }),
+    ).resolves.toMatchObject({ issues: [{ code: 'unknown-engine', name: 'liquid' }] });
+  });
+
+  it('should use registered engines', async () => {
+    const shouting: ITemplatingEngine<string> = {
+      analyze: () => ({ helpers: [], partials: [], paths: [], unknownHelpers: [], variables: [] }),
+      compile: template => template,
+      name: 'shouting',
+      render: template => template.toUpperCase(),
+    };
+    service.registerTemplatingEngine(shouting);
+    await service.createPrompt({
+      content: 'quiet please',
+      engine: 'shouting',
+      id: 'loud',
+      isTemplate: true,
+      name: 'Loud',
+    });
+
+    expect((await service.applyTemplate('loud', {})).content).toBe('QUIET PLEASE');
+  });
+});
+
+describe('Escaping', () => {
+  const handlebars = new HandlebarsTemplatingEngine();
+  const render = (template: string, variables: Record<string, unknown>, escaping?: EscapingMode) =>
+    handlebars.render(handlebars.compile(template, { escaping }), variables, {});
+
+  it('should leave values as they are unless the prompt asks for escaping', () => {
+    expect(render('{{a}} {{b}}', { a: 'a < b', b: 'x = "y"' })).toBe('a < b x = "y"');
+    expect(render('{{a}} {{{a}}}', { a: '<b>' }, 'html')).toBe('&lt;b&gt; <b>');
+  });
+
+  it('should escape values for the text around them', () => {
+    const value = 'say "hi" & <wave>\n```js';
+
+    expect(JSON.parse(render('{"message": "{{value}}"}', { value }, 'json-string'))).toEqual({
+      message: value,
+    });
+    expect(render('<message>{{value}}</message>', { value }, 'xml')).toBe(
+      '<message>say &quot;hi&quot; &amp; &lt;wave&gt;\n```js</message>',
+    );
+    expect(render('```\n{{value}}\n```', { value }, 'markdown-fence')).not.toMatch(/```js/);
+  });
+
+  it('should escape Mustache and Jinja output', () => {
+    const mustache = new MustacheTemplatingEngine();
+    const jinja = new JinjaTemplatingEngine();
+
+    expect(
+      mustache.render(mustache.compile('<q>{{q}}</q>', { escaping: 'xml' }), { q: 'a<b' }, {}),
+    ).toBe('<q>a&lt;b</q>');
+    expect(
+      jinja.render(
+        jinja.compile('"{{ q }}" {{ q | safe }}', { escaping: 'json-string' }),
+        { q: 'a"b' },
+        {},
+      ),
+    ).toBe('"a\\"b" a"b');
+  });
+
+  it('should escape partials for the prompt that includes them', async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    const service = new PromptService(adapter);
+    await service.createPrompt({
+      content: '{{name}}',
+      id: 'signature',
+      isTemplate: true,
+      name: 'Signature',
+      variables: ['name'],
+    });
+    await service.createPrompt({
+      content: '{"task": "{{task}}", "from": "{{> signature}}"}',
+      escaping: 'json-string',
+      id: 'request',
+      isTemplate: true,
+      name: 'Request',
+      variables: ['task', 'name'],
+    });
+
+    const result = await service.applyTemplate('request', {
+      name: 'Ada "the" Analyst',
+      task: 'line one\nline two',
+    });
+
+    expect(JSON.parse(result.content)).toEqual({
+      from: 'Ada "the" Analyst',
+      task: 'line one\nline two',
+    });
+    await service.updatePrompt('request', 1, { escaping: 'yaml' as EscapingMode });
+    await expect(service.applyTemplate('request', { name: 'a', task: 'b' })).rejects.toThrow(
+      "Unknown escaping 'yaml'",
+    );
+  });
+});
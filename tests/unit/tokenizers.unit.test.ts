@@ -0,0 +1,202 @@
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { MemoryAdapter } from '../../src/adapters.js';
+import { ValidationError } from '../../src/errors.js';
+import type { ITokenizer } from '../../src/interfaces.js';
+import { PromptService } from '../../src/prompt-service.js';
+import {
+  ApproximateTokenizer,
+  builtInTokenizer,
+  loadTokenizer,
+  truncateText,
+} from '../../src/tokenizers.js';
+
+/** One token per character, so budgets are easy to follow */
+const characters: ITokenizer = {
+  decode: tokens => String.fromCodePoint(...tokens),
+  encode: text => Array.from(text, char => char.codePointAt(0)!),
+  name: 'characters',
+};
+
+describe('BPE tokenizers', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    // Every byte, then merges in rank order
+    const tokens = [
+      ...Array.from({ length: 256 }, (_, byte) => Buffer.from([byte])),
+      ...['lo', 'he', 'll', 'cD', ' world'].map(token => Buffer.from(token)),
+    ];
+    const ranks = tokens.map((token, rank) => `${token.toString('base64')} ${rank}`).join('\n');
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tokenizers-'));
+    await fs.writeFile(path.join(directory, 'cl100k_base.tiktoken'), ranks);
+    await fs.writeFile(path.join(directory, 'o200k_base.tiktoken'), ranks);
+  });
+
+  afterAll(() => fs.rm(directory, { force: true, recursive: true }));
+
+  it('should merge the lowest ranked pairs first and decode back to the text', async () => {
+    const tokenizer = await loadTokenizer('cl100k_base', directory);
+
+    // hello: lo, then he, leaving he l lo; " world" is a token of its own
+    expect(tokenizer.encode('hello world')).toEqual([257, 108, 256, 260]);
+    expect(tokenizer.decode(tokenizer.encode('hello wörld 😀'))).toBe('hello wörld 😀');
+  });
+
+  it('should split text into pieces the way each encoding does', async () => {
+    const cl100k = await loadTokenizer('cl100k_base', directory);
+    const o200k = await loadTokenizer('o200k_base', directory);
+
+    // o200k starts a new piece at the capital D, so c and D are never merged
+    expect(cl100k.encode('AbcDef')).toContain(259);
+    expect(o200k.encode('AbcDef')).not.toContain(259);
+  });
+
+  it('should reject unknown encodings and missing rank files', async () => {
+    await expect(loadTokenizer('p50k_base', directory)).rejects.toThrow(
+      "Unknown tokenizer 'p50k_base'.",
+    );
+    await expect(loadTokenizer('o200k_base', path.join(directory, 'none'))).rejects.toThrow(
+      /ENOENT/,
+    );
+  });
+
+  it('should count approximately, warning once, without a rank file', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = await builtInTokenizer('cl100k_base', path.join(directory, 'none'));
+    const second = await builtInTokenizer('cl100k_base', path.join(directory, 'other'));
+
+    expect(first).toBeInstanceOf(ApproximateTokenizer);
+    expect(second).toBeInstanceOf(ApproximateTokenizer);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe('ApproximateTokenizer', () => {
+  it('should cut pieces into tokens of up to three characters', () => {
+    const tokenizer = new ApproximateTokenizer('o200k_base');
+
+    expect(tokenizer.encode('Hello world!')).toHaveLength(5);
+    expect(tokenizer.decode(tokenizer.encode('hello wörld 😀😀'))).toBe('hello wörld 😀😀');
+    expect(truncateText(tokenizer, 'abcdefgh', 2, 'truncate-head')).toBe('defgh');
+  });
+});
+
+describe('truncateText', () => {
+  it('should keep the end, the start or both ends', () => {
+    expect(truncateText(characters, 'abcdefgh', 3, 'truncate-head')).toBe('fgh');
+    expect(truncateText(characters, 'abcdefgh', 3, 'truncate-tail')).toBe('abc');
+    expect(truncateText(characters, 'abcdefgh', 3, 'middle-out')).toBe('abh');
+    expect(truncateText(characters, 'abc', 3, 'middle-out')).toBe('abc');
+  });
+});
+
+describe('PromptService token budgets', () => {
+  let service: PromptService;
+
+  beforeEach(async () => {
+    const adapter = new MemoryAdapter();
+    await adapter.connect();
+    service = new PromptService(adapter);
+    service.registerTokenizer(characters);
+  });
+
+  const createPrompt = (strategy?: 'error' | 'truncate-tail' | 'middle-out') =>
+    service.createPrompt({
+      content: 'Q: {{question}}\nContext: {{context}}',
+      id: 'rag',
+      isTemplate: true,
+      name: 'RAG',
+      tokenBudget: { maxTokens: 40, strategy, variables: ['context'] },
+      tokenizer: 'characters',
+      variables: ['question', 'context'],
+    });
+
+  it('should count the tokens of the rendered prompt', async () => {
+    await createPrompt();
+
+    const result = await service.applyTemplate('rag', { context: 'short', question: 'Why?' });
+
+    expect(result.tokens).toEqual({ count: 22, tokenizer: 'characters' });
+  });
+
+  it('should fail when the prompt is over its budget', async () => {
+    await createPrompt('error');
+
+    const render = service.applyTemplate('rag', { context: 'x'.repeat(50), question: 'Why?' });
+
+    await expect(render).rejects.toThrow(ValidationError);
+    await expect(render).rejects.toThrow(
+      "Prompt 'rag' renders to 67 tokens, over its budget of 40.",
+    );
+  });
+
+  it('should shorten the variables the budget allows until the prompt fits', async () => {
+    await createPrompt('middle-out');
+    const context = `start ${'x'.repeat(50)} end`;
+
+    const result = await service.applyTemplate('rag', { context, question: 'Why?' });
+
+    expect(result.content).toBe('Q: Why?\nContext: start xxxxxxxxxxxxx end');
+    expect(result.appliedVariables.context).toBe('start xxxxxxxxxxxxx end');
+    expect(result.tokens).toEqual({
+      count: 40,
+      tokenizer: 'characters',
+      truncated: { context: 37 },
+    });
+    await expect(
+      service.applyTemplate('rag', { context: '', question: 'y'.repeat(50) }),
+    ).rejects.toThrow('over its budget of 40');
+  });
+
+  it('should shorten only variables the template uses by default', async () => {
+    await createPrompt('truncate-tail');
+    await service.updatePrompt('rag', 1, {
+      tokenBudget: { maxTokens: 40, strategy: 'truncate-tail' },
+    });
+
+    const result = await service.applyTemplate('rag', {
+      context: 'x'.repeat(30),
+      question: 'Why?',
+      unused: 'y'.repeat(100),
+    });
+
+    expect(result.appliedVariables.unused).toBe('y'.repeat(100));
+    expect(result.tokens?.truncated).toEqual({ context: 7 });
+  });
+
+  it('should count approximately when the tokenizer is not available', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await createPrompt('truncate-tail');
+    await service.updatePrompt('rag', 1, { tokenizer: 'missing' });
+
+    const result = await service.applyTemplate('rag', {
+      context: 'x'.repeat(150),
+      question: 'Why?',
+    });
+
+    expect(result.tokens).toMatchObject({ approximate: true, count: 40, tokenizer: 'missing' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Tokenizer 'missing'"));
+    warn.mockRestore();
+  });
+
+  it('should keep MCP prompts within their budget', async () => {
+    await createPrompt('truncate-tail');
+    const prompt = await service.getPrompt('rag');
+
+    const formatted = await service.formatMcpPrompt(prompt!, {
+      context: 'x'.repeat(50),
+      question: 'Why?',
+    });
+
+    expect(formatted.messages[0].content).toEqual({
+      text: `Q: Why?\nContext: ${'x'.repeat(23)}`,
+      type: 'text',
+    });
+  });
+});